@@ -4,10 +4,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { RequireRole } from "@/components/RequireRole";
+import { STAFF_ROLES } from "@/lib/roles";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import AdminPanel from "./pages/AdminPanel";
 import Exam from "./pages/Exam";
+import AttemptResults from "./pages/AttemptResults";
+import VerifyCertificate from "./pages/VerifyCertificate";
+import Progress from "./pages/Progress";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -23,8 +28,11 @@ const App = () => (
             <Route path="/" element={<Index />} />
             <Route path="/dashboard" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
-            <Route path="/admin" element={<AdminPanel />} />
+            <Route path="/admin" element={<RequireRole roles={STAFF_ROLES}><AdminPanel /></RequireRole>} />
             <Route path="/exam/:examId" element={<Exam />} />
+            <Route path="/attempts/:attemptId" element={<AttemptResults />} />
+            <Route path="/progress" element={<RequireRole roles={['student']}><Progress /></RequireRole>} />
+            <Route path="/verify/:code" element={<VerifyCertificate />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
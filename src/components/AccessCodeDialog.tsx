@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { KeyRound } from 'lucide-react';
+
+interface AccessCodeDialogProps {
+  examTitle: string | null;
+  onSubmit: (code: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Asks for the code of a supervised exam; the code is checked by start_attempt
+export const AccessCodeDialog = ({ examTitle, onSubmit, onClose }: AccessCodeDialogProps) => {
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setCode('');
+      onClose();
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await onSubmit(code.trim().toUpperCase());
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={examTitle !== null} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Access code required
+          </DialogTitle>
+          <DialogDescription>
+            "{examTitle}" is taken in a supervised session. Enter the access code your supervisor gave you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="access-code">Access code</Label>
+            <Input
+              id="access-code"
+              className="font-mono uppercase tracking-widest"
+              autoComplete="off"
+              autoFocus
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !code.trim()}>
+              {isSubmitting ? 'Checking...' : 'Start Exam'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
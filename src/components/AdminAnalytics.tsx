@@ -0,0 +1,248 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { TrendingUp } from 'lucide-react';
+
+interface AdminAnalyticsProps {
+  exams: { id: string; title: string }[];
+}
+
+// Days shown on the trend charts
+const TREND_DAYS = 30;
+
+const histogramConfig = {
+  attempts: { label: 'Attempts', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const passRateConfig = {
+  pass_rate: { label: 'Pass rate (%)', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const averageConfig = {
+  average_percentage: { label: 'Average score (%)', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const volumeConfig = {
+  started: { label: 'Started', color: 'hsl(var(--muted-foreground))' },
+  completed: { label: 'Graded', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const completionConfig = {
+  submitted: { label: 'Submitted', color: 'hsl(142 71% 45%)' },
+  timed_out: { label: 'Timed out', color: 'hsl(38 92% 50%)' },
+  abandoned: { label: 'Abandoned', color: 'hsl(var(--destructive))' },
+  in_progress: { label: 'In progress', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+// The last TREND_DAYS UTC dates as YYYY-MM-DD, oldest first, matching the view's days
+const recentDays = () =>
+  Array.from({ length: TREND_DAYS }, (_, index) =>
+    new Date(Date.now() - (TREND_DAYS - 1 - index) * 86400000).toISOString().slice(0, 10)
+  );
+
+const shortDate = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export const AdminAnalytics = ({ exams }: AdminAnalyticsProps) => {
+  const [histogramExamId, setHistogramExamId] = useState('all');
+  const [distribution, setDistribution] = useState([]);
+  const [passRates, setPassRates] = useState([]);
+  const [dailyStats, setDailyStats] = useState([]);
+  const [completionRates, setCompletionRates] = useState([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, []);
+
+  const fetchAnalytics = async () => {
+    try {
+      const [distributionResult, passRatesResult, dailyResult, completionResult] = await Promise.all([
+        supabase.from('exam_score_distribution').select('*'),
+        supabase.from('subject_pass_rates').select('*').order('subject_name'),
+        supabase.from('daily_attempt_stats').select('*').gte('day', recentDays()[0]).order('day'),
+        supabase.from('exam_completion_rates').select('*').order('exam_title'),
+      ]);
+
+      for (const result of [distributionResult, passRatesResult, dailyResult, completionResult]) {
+        if (result.error) throw result.error;
+      }
+
+      setDistribution(distributionResult.data || []);
+      setPassRates(passRatesResult.data || []);
+      setDailyStats(dailyResult.data || []);
+      setCompletionRates(completionResult.data || []);
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+      toast.error('Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Every bucket is shown, including empty ones, so the shape of the distribution is clear
+  const histogramData = Array.from({ length: 10 }, (_, index) => {
+    const bucketStart = index * 10;
+    return {
+      range: bucketStart === 90 ? '90–100' : `${bucketStart}–${bucketStart + 9}`,
+      attempts: distribution
+        .filter(row => row.bucket_start === bucketStart && (histogramExamId === 'all' || row.exam_id === histogramExamId))
+        .reduce((sum, row) => sum + row.attempts, 0),
+    };
+  });
+
+  const trendData = recentDays().map(day => {
+    const row = dailyStats.find(stats => stats.day === day);
+    return {
+      day: shortDate(day),
+      started: row?.started ?? 0,
+      completed: row?.completed ?? 0,
+      average_percentage: row?.average_percentage ?? null,
+    };
+  });
+
+  if (loading) {
+    return <div className="text-center py-8">Loading analytics...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>Score Distribution</CardTitle>
+                <CardDescription>Graded attempts by percentage scored</CardDescription>
+              </div>
+              <Select value={histogramExamId} onValueChange={setHistogramExamId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All exams</SelectItem>
+                  {exams.map((exam) => (
+                    <SelectItem key={exam.id} value={exam.id}>{exam.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={histogramConfig} className="h-64 w-full">
+              <BarChart data={histogramData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="range" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="attempts" fill="var(--color-attempts)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Pass Rate by Subject</CardTitle>
+            <CardDescription>Share of graded attempts that passed</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {passRates.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No graded attempts yet.</div>
+            ) : (
+              <ChartContainer config={passRateConfig} className="h-64 w-full">
+                <BarChart data={passRates}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="subject_name" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="pass_rate" fill="var(--color-pass_rate)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Average Score
+            </CardTitle>
+            <CardDescription>Mean percentage of attempts graded each day, last {TREND_DAYS} days (UTC)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={averageConfig} className="h-64 w-full">
+              <LineChart data={trendData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line
+                  dataKey="average_percentage"
+                  stroke="var(--color-average_percentage)"
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Attempts per Day</CardTitle>
+            <CardDescription>Attempts started and graded, last {TREND_DAYS} days (UTC)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={volumeConfig} className="h-64 w-full">
+              <BarChart data={trendData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="started" fill="var(--color-started)" radius={2} />
+                <Bar dataKey="completed" fill="var(--color-completed)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Completion vs Abandonment</CardTitle>
+          <CardDescription>
+            How attempts at each exam ended. Timed out attempts were submitted automatically at the
+            deadline; abandoned ones were started without a single answer being saved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {completionRates.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No attempts yet.</div>
+          ) : (
+            <ChartContainer config={completionConfig} className="w-full" style={{ height: Math.max(160, completionRates.length * 40 + 60) }}>
+              <BarChart data={completionRates} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="exam_title" tickLine={false} axisLine={false} width={160} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="submitted" stackId="outcome" fill="var(--color-submitted)" />
+                <Bar dataKey="timed_out" stackId="outcome" fill="var(--color-timed_out)" />
+                <Bar dataKey="abandoned" stackId="outcome" fill="var(--color-abandoned)" />
+                <Bar dataKey="in_progress" stackId="outcome" fill="var(--color-in_progress)" />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
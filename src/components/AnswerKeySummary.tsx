@@ -0,0 +1,84 @@
+import type { Json } from '@/integrations/supabase/types';
+import { MatchingOptions, OPTION_LETTERS } from '@/lib/questionTypes';
+
+interface AnswerKeySummaryProps {
+  question: {
+    question_type: string;
+    option_a: string | null;
+    option_b: string | null;
+    option_c: string | null;
+    option_d: string | null;
+    correct_answer: string | null;
+    options: Json | null;
+    answer_key: Json | null;
+  };
+}
+
+export const AnswerKeySummary = ({ question }: AnswerKeySummaryProps) => {
+  const key = (question.answer_key ?? {}) as Record<string, Json>;
+  const correctClass = 'bg-green-100 dark:bg-green-900/20 border-green-200';
+
+  switch (question.question_type) {
+    case 'true_false':
+      return (
+        <div className={`p-2 rounded text-sm ${correctClass}`}>
+          <span className="font-medium">Answer:</span> {question.correct_answer === 'true' ? 'True' : 'False'}
+        </div>
+      );
+    case 'multi_select': {
+      const correct = (key.correct ?? []) as number[];
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+          {((question.options ?? []) as string[]).map((text, index) => (
+            <div key={index} className={`p-2 rounded ${correct.includes(index) ? correctClass : 'bg-muted'}`}>
+              {text}
+            </div>
+          ))}
+        </div>
+      );
+    }
+    case 'numeric':
+      return (
+        <div className={`p-2 rounded text-sm ${correctClass}`}>
+          <span className="font-medium">Answer:</span> {String(key.value)}
+          {Number(key.tolerance) > 0 && ` ± ${key.tolerance}`}
+        </div>
+      );
+    case 'short_text':
+      return (
+        <div className={`p-2 rounded text-sm ${correctClass}`}>
+          <span className="font-medium">Accepted:</span> {((key.accepted ?? []) as string[]).join(', ')}
+          {key.case_sensitive && ' (case sensitive)'}
+        </div>
+      );
+    case 'essay':
+      return (
+        <div className="p-2 rounded text-sm bg-muted">
+          <span className="font-medium">Graded manually.</span> {key.rubric ? `Rubric: ${key.rubric}` : ''}
+        </div>
+      );
+    case 'matching': {
+      const { prompts = [], choices = [] } = (question.options ?? {}) as unknown as MatchingOptions;
+      const matches = (key.matches ?? []) as number[];
+      return (
+        <div className="grid grid-cols-1 gap-2 text-sm">
+          {prompts.map((prompt, index) => (
+            <div key={index} className="p-2 rounded bg-muted">
+              <span className="font-medium">{prompt}</span> → {choices[matches[index]]}
+            </div>
+          ))}
+        </div>
+      );
+    }
+    default:
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+          {OPTION_LETTERS.map((letter) => (
+            <div key={letter} className={`p-2 rounded ${question.correct_answer === letter ? correctClass : 'bg-muted'}`}>
+              <span className="font-medium">{letter}:</span> {question[`option_${letter.toLowerCase()}`]}
+            </div>
+          ))}
+        </div>
+      );
+  }
+};
@@ -0,0 +1,227 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Plus, Shuffle, Trash2 } from 'lucide-react';
+import { DIFFICULTY_LEVELS } from '@/lib/questionTypes';
+
+interface BlueprintRule {
+  id: string;
+  tag: string | null;
+  difficulty: string | null;
+  question_count: number;
+  marks: number | null;
+  order_number: number;
+  pool_size?: number;
+}
+
+interface BlueprintManagerProps {
+  examId: string;
+  subjectId: string;
+}
+
+const emptyRuleForm = {
+  tag: '',
+  difficulty: 'any',
+  question_count: 5,
+  marks: ''
+};
+
+export const BlueprintManager = ({ examId, subjectId }: BlueprintManagerProps) => {
+  const [rules, setRules] = useState<BlueprintRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [ruleForm, setRuleForm] = useState(emptyRuleForm);
+
+  // Number of bank questions a rule can draw from, so short pools are visible up front
+  const countPool = useCallback(async (tag: string | null, difficulty: string | null) => {
+    let query = supabase
+      .from('questions')
+      .select('id', { count: 'exact', head: true })
+      .eq('subject_id', subjectId);
+
+    if (tag) query = query.contains('tags', [tag]);
+    if (difficulty) query = query.eq('difficulty', difficulty);
+
+    const { count } = await query;
+    return count ?? 0;
+  }, [subjectId]);
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('exam_blueprint_rules')
+        .select('*')
+        .eq('exam_id', examId)
+        .order('order_number', { ascending: true });
+
+      if (error) throw error;
+
+      const withPools = await Promise.all((data || []).map(async rule => ({
+        ...rule,
+        pool_size: await countPool(rule.tag, rule.difficulty)
+      })));
+      setRules(withPools);
+    } catch (error) {
+      console.error('Error fetching blueprint rules:', error);
+      toast.error('Failed to load blueprint');
+    } finally {
+      setLoading(false);
+    }
+  }, [examId, countPool]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (ruleForm.question_count < 1) {
+      toast.error('Draw at least one question');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('exam_blueprint_rules')
+        .insert({
+          exam_id: examId,
+          tag: ruleForm.tag.trim() || null,
+          difficulty: ruleForm.difficulty === 'any' ? null : ruleForm.difficulty,
+          question_count: ruleForm.question_count,
+          marks: ruleForm.marks ? parseInt(ruleForm.marks) : null,
+          order_number: rules.length + 1
+        });
+
+      if (error) throw error;
+      toast.success('Rule added');
+      setRuleForm(emptyRuleForm);
+      fetchRules();
+    } catch (error) {
+      console.error('Error adding blueprint rule:', error);
+      toast.error('Failed to add rule');
+    }
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    try {
+      const { error } = await supabase
+        .from('exam_blueprint_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+      toast.success('Rule removed');
+      fetchRules();
+    } catch (error) {
+      console.error('Error removing blueprint rule:', error);
+      toast.error('Failed to remove rule');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shuffle className="h-5 w-5" />
+          Random Question Pools
+        </CardTitle>
+        <CardDescription>
+          Each attempt gets the fixed questions above plus a fresh random draw from the subject's question bank for every rule.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAddRule} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <Label htmlFor="rule-count">Questions</Label>
+            <Input
+              id="rule-count"
+              type="number"
+              min="1"
+              value={ruleForm.question_count}
+              onChange={(e) => setRuleForm({...ruleForm, question_count: parseInt(e.target.value) || 1})}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="rule-tag">Topic</Label>
+            <Input
+              id="rule-tag"
+              placeholder="Any topic"
+              value={ruleForm.tag}
+              onChange={(e) => setRuleForm({...ruleForm, tag: e.target.value})}
+            />
+          </div>
+          <div>
+            <Label htmlFor="rule-difficulty">Difficulty</Label>
+            <Select
+              value={ruleForm.difficulty}
+              onValueChange={(value) => setRuleForm({...ruleForm, difficulty: value})}
+            >
+              <SelectTrigger id="rule-difficulty">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any difficulty</SelectItem>
+                {DIFFICULTY_LEVELS.map((level) => (
+                  <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="rule-marks">Marks each</Label>
+            <Input
+              id="rule-marks"
+              type="number"
+              min="1"
+              placeholder="Question default"
+              value={ruleForm.marks}
+              onChange={(e) => setRuleForm({...ruleForm, marks: e.target.value})}
+            />
+          </div>
+          <Button type="submit">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </form>
+
+        {loading ? (
+          <div className="text-center py-8">Loading blueprint...</div>
+        ) : rules.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No random pools. Every student gets the same questions.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">
+                    Draw {rule.question_count} {rule.tag ? `"${rule.tag}"` : 'any topic'} question{rule.question_count === 1 ? '' : 's'}
+                  </span>
+                  <Badge variant="outline" className="capitalize">{rule.difficulty || 'any difficulty'}</Badge>
+                  <Badge variant="secondary">
+                    {rule.marks ? `${rule.marks} marks each` : 'default marks'}
+                  </Badge>
+                  <Badge variant={rule.pool_size < rule.question_count ? 'destructive' : 'outline'}>
+                    {rule.pool_size} in pool
+                  </Badge>
+                </div>
+                <Button variant="destructive" size="sm" onClick={() => handleDeleteRule(rule.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
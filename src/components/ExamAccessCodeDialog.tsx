@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Copy, KeyRound, RefreshCw, Trash2 } from 'lucide-react';
+
+interface ExamAccessCodeDialogProps {
+  exam: {
+    id: string;
+    title: string;
+    requires_access_code: boolean;
+  };
+  onSaved: () => void;
+}
+
+interface AccessCode {
+  code: string;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export const ExamAccessCodeDialog = ({ exam, onSaved }: ExamAccessCodeDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [accessCode, setAccessCode] = useState<AccessCode | null>(null);
+  const [validMinutes, setValidMinutes] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const fetchAccessCode = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('exam_access_codes')
+        .select('code, expires_at, created_at')
+        .eq('exam_id', exam.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setAccessCode(data);
+    } catch (error) {
+      console.error('Error fetching access code:', error);
+      toast.error('Failed to load access code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setValidMinutes('');
+      fetchAccessCode();
+    }
+  };
+
+  const rotateCode = async () => {
+    try {
+      const { data, error } = await supabase.rpc('rotate_exam_access_code', {
+        _exam_id: exam.id,
+        _valid_minutes: validMinutes ? parseInt(validMinutes) : undefined
+      });
+
+      if (error) throw error;
+      setAccessCode(data);
+      toast.success(accessCode ? 'Access code rotated; the old code no longer works' : 'Access code issued');
+      onSaved();
+    } catch (error) {
+      console.error('Error issuing access code:', error);
+      toast.error('Failed to issue access code');
+    }
+  };
+
+  const removeCode = async () => {
+    if (!confirm('Remove the access code? Any student who can see this exam will be able to start it.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('exam_access_codes')
+        .delete()
+        .eq('exam_id', exam.id);
+
+      if (error) throw error;
+      setAccessCode(null);
+      toast.success('Access code removed');
+      onSaved();
+    } catch (error) {
+      console.error('Error removing access code:', error);
+      toast.error('Failed to remove access code');
+    }
+  };
+
+  const copyCode = async () => {
+    await navigator.clipboard.writeText(accessCode.code);
+    toast.success('Access code copied');
+  };
+
+  const expired = accessCode?.expires_at && new Date(accessCode.expires_at).getTime() <= Date.now();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant={exam.requires_access_code ? 'secondary' : 'outline'} size="sm">
+          <KeyRound className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Access code for "{exam.title}"</DialogTitle>
+          <DialogDescription>
+            With a code set, students must enter it before starting an attempt. Rotate the code for
+            each supervised session; attempts already started are not affected.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-4">Loading...</div>
+        ) : (
+          <div className="space-y-4">
+            {accessCode ? (
+              <div className="rounded-lg border p-4 text-center">
+                <div className="flex items-center justify-center gap-2">
+                  <span className="font-mono text-3xl font-bold tracking-widest">{accessCode.code}</span>
+                  <Button variant="ghost" size="sm" onClick={copyCode}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className={`text-sm mt-2 ${expired ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {!accessCode.expires_at
+                    ? 'Valid until rotated'
+                    : `${expired ? 'Expired' : 'Valid until'} ${new Date(accessCode.expires_at).toLocaleString()}`}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No access code is set, so any student who can see this exam can start it.
+              </p>
+            )}
+
+            <div>
+              <Label htmlFor="access-code-valid-minutes">Valid for (minutes)</Label>
+              <Input
+                id="access-code-valid-minutes"
+                type="number"
+                min="1"
+                placeholder="Until rotated"
+                value={validMinutes}
+                onChange={(e) => setValidMinutes(e.target.value)}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {accessCode && (
+                <Button variant="destructive" onClick={removeCode}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Remove Code
+                </Button>
+              )}
+              <Button onClick={rotateCode}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                {accessCode ? 'Rotate Code' : 'Issue Code'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,7 +1,10 @@
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Clock, BookOpen, Award } from 'lucide-react';
+import { Clock, BookOpen, Award, CalendarClock, KeyRound, RotateCcw } from 'lucide-react';
+import { formatCountdown, formatInTimeZone, getExamWindowStatus } from '@/lib/examSchedule';
+import { GRADING_POLICY_LABELS, GradingPolicy, KeptScore } from '@/lib/attemptPolicy';
 
 interface ExamCardProps {
   exam: {
@@ -10,18 +13,55 @@ interface ExamCardProps {
     description: string;
     duration_minutes: number;
     total_marks: number;
-    passing_marks: number;
+    pass_percentage: number;
     is_active: boolean;
+    opens_at: string | null;
+    closes_at: string | null;
+    timezone: string;
+    max_attempts: number | null;
+    grading_policy: string;
+    requires_access_code?: boolean;
     subject?: {
       name: string;
     };
   };
   onStartExam: (examId: string) => void;
   hasAttempted?: boolean;
-  lastScore?: number;
+  keptScore?: KeptScore | null;
+  retake?: {
+    inProgress: boolean;
+    attemptsLeft: number | null;
+    nextAttemptAt: number | null;
+  };
 }
 
-export const ExamCard = ({ exam, onStartExam, hasAttempted, lastScore }: ExamCardProps) => {
+export const ExamCard = ({ exam, onStartExam, hasAttempted, keptScore, retake }: ExamCardProps) => {
+  const [now, setNow] = useState(Date.now());
+  const windowStatus = getExamWindowStatus(exam, now);
+  const isScheduled = Boolean(exam.opens_at || exam.closes_at);
+  // An averaged score is held to the same pass percentage the server applies per attempt
+  const keptPassed = keptScore
+    ? keptScore.passed ?? keptScore.percentage >= exam.pass_percentage
+    : false;
+  const canResume = Boolean(retake?.inProgress);
+  const coolingDown = !canResume && Boolean(retake?.nextAttemptAt && retake.nextAttemptAt > now);
+  const outOfAttempts = !canResume && retake?.attemptsLeft === 0;
+
+  useEffect(() => {
+    if (!isScheduled && !retake?.nextAttemptAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isScheduled, retake?.nextAttemptAt]);
+
+  const getButtonLabel = () => {
+    if (canResume) return 'Resume Exam';
+    if (windowStatus === 'upcoming') return 'Not Open Yet';
+    if (windowStatus === 'closed') return 'Closed';
+    if (outOfAttempts) return 'No Attempts Left';
+    if (coolingDown) return `Retake in ${formatCountdown(retake.nextAttemptAt - now)}`;
+    return hasAttempted ? 'Retake Exam' : 'Start Exam';
+  };
+
   const getScoreColor = (score: number, total: number) => {
     const percentage = (score / total) * 100;
     if (percentage >= 90) return 'text-score-excellent';
@@ -60,31 +100,78 @@ export const ExamCard = ({ exam, onStartExam, hasAttempted, lastScore }: ExamCar
           </div>
           <div className="flex items-center gap-1">
             <Award className="h-4 w-4" />
-            <span>Pass: {exam.passing_marks}</span>
+            <span>Pass: {exam.pass_percentage}%</span>
           </div>
         </div>
 
-        {hasAttempted && lastScore !== undefined && (
+        {isScheduled && (
+          <div className="mb-4 flex items-start gap-2 text-sm">
+            <CalendarClock className="h-4 w-4 mt-0.5 text-muted-foreground" />
+            <div>
+              {windowStatus === 'upcoming' && (
+                <>
+                  <p className="font-medium">Opens in {formatCountdown(new Date(exam.opens_at).getTime() - now)}</p>
+                  <p className="text-muted-foreground">{formatInTimeZone(exam.opens_at, exam.timezone)}</p>
+                </>
+              )}
+              {windowStatus === 'open' && exam.closes_at && (
+                <>
+                  <p className="font-medium">Closes in {formatCountdown(new Date(exam.closes_at).getTime() - now)}</p>
+                  <p className="text-muted-foreground">{formatInTimeZone(exam.closes_at, exam.timezone)}</p>
+                </>
+              )}
+              {windowStatus === 'open' && !exam.closes_at && (
+                <p className="text-muted-foreground">Open since {formatInTimeZone(exam.opens_at, exam.timezone)}</p>
+              )}
+              {windowStatus === 'closed' && (
+                <p className="text-muted-foreground">Closed {formatInTimeZone(exam.closes_at, exam.timezone)}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {hasAttempted && keptScore && (
           <div className="mb-4 p-3 bg-secondary rounded-lg">
             <div className="flex items-center gap-2">
               <Award className="h-4 w-4" />
-              <span className="text-sm font-medium">Last Score:</span>
-              <span className={`font-bold ${getScoreColor(lastScore, exam.total_marks)}`}>
-                {lastScore}/{exam.total_marks}
+              <span className="text-sm font-medium">
+                {GRADING_POLICY_LABELS[exam.grading_policy as GradingPolicy]}:
+              </span>
+              <span className={`font-bold ${getScoreColor(keptScore.score, keptScore.total_marks)}`}>
+                {keptScore.score}/{keptScore.total_marks}
               </span>
               <span className="text-sm text-muted-foreground">
-                ({Math.round((lastScore / exam.total_marks) * 100)}%)
+                ({Math.round(keptScore.percentage)}%)
               </span>
+              <Badge variant={keptPassed ? 'default' : 'destructive'} className="ml-auto">
+                {keptPassed ? 'Passed' : 'Failed'}
+              </Badge>
             </div>
           </div>
         )}
 
+        {exam.requires_access_code && !canResume && (
+          <div className="mb-4 flex items-center gap-2 text-sm text-muted-foreground">
+            <KeyRound className="h-4 w-4" />
+            <span>Supervised session: access code required</span>
+          </div>
+        )}
+
+        {exam.max_attempts !== null && (
+          <div className="mb-4 flex items-center gap-2 text-sm text-muted-foreground">
+            <RotateCcw className="h-4 w-4" />
+            <span>
+              {retake?.attemptsLeft ?? exam.max_attempts} of {exam.max_attempts} attempts left
+            </span>
+          </div>
+        )}
+
         <Button 
           onClick={() => onStartExam(exam.id)} 
           className="w-full" 
-          disabled={!exam.is_active}
+          disabled={!canResume && (!exam.is_active || windowStatus !== 'open' || outOfAttempts || coolingDown)}
         >
-          {hasAttempted ? 'Retake Exam' : 'Start Exam'}
+          {getButtonLabel()}
         </Button>
       </CardContent>
     </Card>
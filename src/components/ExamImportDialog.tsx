@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { PackageOpen } from 'lucide-react';
+import { ExamBundle, importExamBundle, validateExamBundle } from '@/lib/examPackage';
+import { parseQtiPackage } from '@/lib/qti';
+
+interface ExamImportDialogProps {
+  subjects: { id: string; name: string; is_active: boolean }[];
+  onImported: () => void;
+}
+
+export const ExamImportDialog = ({ subjects, onImported }: ExamImportDialogProps) => {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [bundle, setBundle] = useState<ExamBundle | null>(null);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [subjectId, setSubjectId] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setBundle(null);
+    setSkipped([]);
+    setSubjectId('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    reset();
+    if (!file) return;
+
+    try {
+      if (file.name.toLowerCase().endsWith('.zip')) {
+        const parsed = await parseQtiPackage(file);
+        setBundle(parsed.bundle);
+        setSkipped(parsed.skipped);
+      } else {
+        const parsed = JSON.parse(await file.text());
+        const error = validateExamBundle(parsed);
+        if (error) {
+          toast.error(error);
+          return;
+        }
+        setBundle(parsed);
+      }
+    } catch (error) {
+      console.error('Error reading exam package:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read exam package');
+    }
+  };
+
+  // Preselect the subject the exam was exported from when it exists here too
+  const suggestedSubject = bundle?.subject
+    ? subjects.find(subject => subject.name.toLowerCase() === bundle.subject.name.toLowerCase())
+    : undefined;
+
+  const handleImport = async () => {
+    const targetSubject = subjectId || suggestedSubject?.id;
+    if (!bundle || !targetSubject) {
+      toast.error('Choose a subject for the imported exam');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      await importExamBundle(bundle, targetSubject, user.id);
+      toast.success(`Imported "${bundle.exam.title}" as an inactive exam`);
+      reset();
+      setIsOpen(false);
+      onImported();
+    } catch (error) {
+      console.error('Error importing exam:', error);
+      toast.error('Failed to import exam');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <PackageOpen className="h-4 w-4 mr-2" />
+          Import Exam
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Exam</DialogTitle>
+          <DialogDescription>
+            Upload an exam bundle (.json) or an IMS QTI 2.1 package (.zip). The exam is created inactive
+            and its questions are added to the chosen subject's question bank.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="exam-package">Package</Label>
+            <Input id="exam-package" type="file" accept=".json,.zip" onChange={handleFile} />
+          </div>
+
+          {bundle && (
+            <>
+              <div className="p-3 rounded bg-muted text-sm space-y-1">
+                <p className="font-medium">{bundle.exam.title}</p>
+                <p className="text-muted-foreground">
+                  {bundle.questions.length} questions · {bundle.exam.total_marks} marks · {bundle.exam.duration_minutes} min
+                  {bundle.blueprint_rules.length > 0 && ` · ${bundle.blueprint_rules.length} random pools`}
+                </p>
+                {bundle.subject && (
+                  <p className="text-muted-foreground">Exported from subject "{bundle.subject.name}"</p>
+                )}
+              </div>
+
+              {skipped.length > 0 && (
+                <div className="text-sm text-destructive space-y-1">
+                  <p>{skipped.length} items can't be imported and will be skipped:</p>
+                  <ul className="list-disc pl-5">
+                    {skipped.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="import-subject">Subject</Label>
+                <Select value={subjectId || suggestedSubject?.id || ''} onValueChange={setSubjectId}>
+                  <SelectTrigger id="import-subject">
+                    <SelectValue placeholder="Select subject" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {subjects.filter(s => s.is_active).map((subject) => (
+                      <SelectItem key={subject.id} value={subject.id}>{subject.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={!bundle || importing}>
+              {importing ? 'Importing...' : 'Import'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Target } from 'lucide-react';
+
+interface ExamPassMarkDialogProps {
+  exam: {
+    id: string;
+    title: string;
+    total_marks: number;
+    pass_percentage: number;
+  };
+  onSaved: () => void;
+}
+
+export const ExamPassMarkDialog = ({ exam, onSaved }: ExamPassMarkDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [passPercentage, setPassPercentage] = useState('');
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setPassPercentage(exam.pass_percentage.toString());
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(passPercentage);
+    if (isNaN(value) || value < 0 || value > 100) {
+      toast.error('The pass mark must be between 0 and 100%');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('exams')
+        .update({ pass_percentage: value })
+        .eq('id', exam.id);
+
+      if (error) throw error;
+      toast.success('Pass mark saved');
+      setIsOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving pass mark:', error);
+      toast.error('Failed to save pass mark');
+    }
+  };
+
+  const value = parseFloat(passPercentage);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Target className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pass mark for "{exam.title}"</DialogTitle>
+          <DialogDescription>
+            The share of an attempt's marks a student needs to pass and receive a certificate. It applies
+            to attempts graded after you save it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <Label htmlFor="pass-mark-percentage">Pass mark (%)</Label>
+            <Input
+              id="pass-mark-percentage"
+              type="number"
+              min="0"
+              max="100"
+              step="any"
+              value={passPercentage}
+              onChange={(e) => setPassPercentage(e.target.value)}
+              required
+            />
+            {exam.total_marks > 0 && !isNaN(value) && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {Math.ceil((value * exam.total_marks) / 100)} of the exam's {exam.total_marks} marks
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">Save Pass Mark</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { ShieldAlert } from 'lucide-react';
+
+interface ExamProctoringDialogProps {
+  exam: {
+    id: string;
+    title: string;
+    max_violations: number | null;
+    require_fullscreen: boolean;
+  };
+  onSaved: () => void;
+}
+
+export const ExamProctoringDialog = ({ exam, onSaved }: ExamProctoringDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [maxViolations, setMaxViolations] = useState('');
+  const [requireFullscreen, setRequireFullscreen] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setMaxViolations(exam.max_violations?.toString() ?? '');
+      setRequireFullscreen(exam.require_fullscreen);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase
+        .from('exams')
+        .update({
+          max_violations: maxViolations ? parseInt(maxViolations) : null,
+          require_fullscreen: requireFullscreen,
+        })
+        .eq('id', exam.id);
+
+      if (error) throw error;
+      toast.success('Proctoring settings saved');
+      setIsOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving proctoring settings:', error);
+      toast.error('Failed to save proctoring settings');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ShieldAlert className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Proctoring for "{exam.title}"</DialogTitle>
+          <DialogDescription>
+            Tab switches, leaving the window, copy and paste and fullscreen exits are always logged.
+            Students are warned on each one and the attempt is submitted automatically when the limit
+            is reached. Leave the limit empty to only log them. Signs of open developer tools are
+            logged for review but never count as a warning.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <Label htmlFor="proctoring-max-violations">Warnings before auto-submit</Label>
+            <Input
+              id="proctoring-max-violations"
+              type="number"
+              min="1"
+              placeholder="No limit"
+              value={maxViolations}
+              onChange={(e) => setMaxViolations(e.target.value)}
+            />
+          </div>
+          <div className="flex items-start space-x-2">
+            <Switch
+              id="proctoring-require-fullscreen"
+              checked={requireFullscreen}
+              onCheckedChange={setRequireFullscreen}
+            />
+            <div>
+              <Label htmlFor="proctoring-require-fullscreen">Lockdown mode</Label>
+              <p className="text-sm text-muted-foreground">
+                Questions are only shown in fullscreen and are hidden whenever the student leaves it.
+                Site navigation, text selection, the context menu and printing are disabled.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">Save Settings</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { RotateCcw } from 'lucide-react';
+import { GRADING_POLICY_LABELS, GradingPolicy } from '@/lib/attemptPolicy';
+
+interface ExamRetakeDialogProps {
+  exam: {
+    id: string;
+    title: string;
+    max_attempts: number | null;
+    attempt_cooldown_minutes: number;
+    grading_policy: string;
+  };
+  onSaved: () => void;
+}
+
+export const ExamRetakeDialog = ({ exam, onSaved }: ExamRetakeDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [maxAttempts, setMaxAttempts] = useState('');
+  const [cooldown, setCooldown] = useState('0');
+  const [gradingPolicy, setGradingPolicy] = useState<GradingPolicy>('highest');
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setMaxAttempts(exam.max_attempts?.toString() ?? '');
+      setCooldown(exam.attempt_cooldown_minutes.toString());
+      setGradingPolicy(exam.grading_policy as GradingPolicy);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase
+        .from('exams')
+        .update({
+          max_attempts: maxAttempts ? parseInt(maxAttempts) : null,
+          attempt_cooldown_minutes: parseInt(cooldown) || 0,
+          grading_policy: gradingPolicy,
+        })
+        .eq('id', exam.id);
+
+      if (error) throw error;
+      toast.success('Retake rules saved');
+      setIsOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving retake rules:', error);
+      toast.error('Failed to save retake rules');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Retakes for "{exam.title}"</DialogTitle>
+          <DialogDescription>
+            Limit how often students can sit this exam and choose which attempt counts towards their
+            result. Leave the attempt limit empty to allow unlimited retakes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="retake-max-attempts">Max attempts</Label>
+              <Input
+                id="retake-max-attempts"
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={maxAttempts}
+                onChange={(e) => setMaxAttempts(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="retake-cooldown">Cooldown (minutes)</Label>
+              <Input
+                id="retake-cooldown"
+                type="number"
+                min="0"
+                value={cooldown}
+                onChange={(e) => setCooldown(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="retake-grading-policy">Score that counts</Label>
+            <Select value={gradingPolicy} onValueChange={(value) => setGradingPolicy(value as GradingPolicy)}>
+              <SelectTrigger id="retake-grading-policy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(GRADING_POLICY_LABELS).map(([policy, label]) => (
+                  <SelectItem key={policy} value={policy}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">Save Rules</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
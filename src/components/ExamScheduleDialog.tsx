@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { CalendarClock } from 'lucide-react';
+import { BROWSER_TIMEZONE, TIMEZONES, isoToZonedInput, zonedInputToIso } from '@/lib/examSchedule';
+import { reviewPolicyAllowed } from '@/lib/attemptReview';
+
+interface ExamScheduleDialogProps {
+  exam: {
+    id: string;
+    title: string;
+    opens_at: string | null;
+    closes_at: string | null;
+    timezone: string;
+    review_policy: string;
+  };
+  onSaved: () => void;
+}
+
+export const ExamScheduleDialog = ({ exam, onSaved }: ExamScheduleDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [timezone, setTimezone] = useState(exam.timezone);
+  const [opensAt, setOpensAt] = useState('');
+  const [closesAt, setClosesAt] = useState('');
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      // New schedules default to the admin's own zone
+      const zone = exam.opens_at || exam.closes_at ? exam.timezone : BROWSER_TIMEZONE;
+      setTimezone(zone);
+      setOpensAt(isoToZonedInput(exam.opens_at, zone));
+      setClosesAt(isoToZonedInput(exam.closes_at, zone));
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const opens = zonedInputToIso(opensAt, timezone);
+    const closes = zonedInputToIso(closesAt, timezone);
+    if (opens && closes && closes <= opens) {
+      toast.error('The exam must close after it opens');
+      return;
+    }
+    if (!reviewPolicyAllowed(exam.review_policy, closes)) {
+      toast.error('This exam shows answers after it closes, so it needs a close date');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('exams')
+        .update({ opens_at: opens, closes_at: closes, timezone })
+        .eq('id', exam.id);
+
+      if (error) throw error;
+      toast.success('Schedule saved');
+      setIsOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      toast.error('Failed to save schedule');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CalendarClock className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Schedule "{exam.title}"</DialogTitle>
+          <DialogDescription>
+            Students can only start the exam inside this window. Anyone starting late gets the time
+            left until it closes. Leave a field empty for no limit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <Label htmlFor="schedule-timezone">Timezone</Label>
+            <Select value={timezone} onValueChange={setTimezone}>
+              <SelectTrigger id="schedule-timezone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...new Set([timezone, ...TIMEZONES])].map((zone) => (
+                  <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="schedule-opens">Opens</Label>
+              <Input
+                id="schedule-opens"
+                type="datetime-local"
+                value={opensAt}
+                onChange={(e) => setOpensAt(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="schedule-closes">Closes</Label>
+              <Input
+                id="schedule-closes"
+                type="datetime-local"
+                value={closesAt}
+                onChange={(e) => setClosesAt(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">Save Schedule</Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
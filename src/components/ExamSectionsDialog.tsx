@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Users } from 'lucide-react';
+
+interface ExamSectionsDialogProps {
+  exam: {
+    id: string;
+    title: string;
+    exam_sections: { section_id: string }[];
+  };
+  onSaved: () => void;
+}
+
+export const ExamSectionsDialog = ({ exam, onSaved }: ExamSectionsDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sections, setSections] = useState<{ id: string; name: string }[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const fetchSections = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sections')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setSections(data || []);
+    } catch (error) {
+      console.error('Error fetching sections:', error);
+      toast.error('Failed to load sections');
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setSelected(exam.exam_sections.map(assignment => assignment.section_id));
+      fetchSections();
+    }
+  };
+
+  const toggleSection = (sectionId: string, checked: boolean) => {
+    setSelected(prev => (checked ? [...prev, sectionId] : prev.filter(id => id !== sectionId)));
+  };
+
+  const handleSave = async () => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('exam_sections')
+        .delete()
+        .eq('exam_id', exam.id);
+
+      if (deleteError) throw deleteError;
+
+      if (selected.length > 0) {
+        const { error } = await supabase
+          .from('exam_sections')
+          .insert(selected.map(sectionId => ({ exam_id: exam.id, section_id: sectionId })));
+
+        if (error) throw error;
+      }
+
+      toast.success('Sections saved');
+      setIsOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving exam sections:', error);
+      toast.error('Failed to save sections');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Users className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Sections for "{exam.title}"</DialogTitle>
+          <DialogDescription>
+            Only students enrolled in a chosen section can see and start this exam. Choose none to
+            open it to every student.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sections.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No sections yet. Create them on the Sections tab.
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {sections.map((section) => (
+              <label key={section.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={selected.includes(section.id)}
+                  onCheckedChange={(checked) => toggleSection(section.id, checked === true)}
+                />
+                {section.name}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save Sections</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,260 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { ArrowDown, ArrowUp, ArrowUpDown, Download, FileSpreadsheet, Table2 } from 'lucide-react';
+import {
+  ATTEMPT_STATUS_LABELS,
+  GradebookRow,
+  GradebookSortKey,
+  exportGradebookCsv,
+  exportGradebookXlsx,
+  formatDuration,
+  sortGradebook,
+  toGradebookRow,
+} from '@/lib/gradebook';
+
+interface GradebookProps {
+  exams: { id: string; title: string }[];
+}
+
+const COLUMNS: { key: GradebookSortKey; label: string }[] = [
+  { key: 'name', label: 'Student' },
+  { key: 'email', label: 'Email' },
+  { key: 'score', label: 'Score' },
+  { key: 'percentage', label: '%' },
+  { key: 'status', label: 'Status' },
+  { key: 'started_at', label: 'Started' },
+  { key: 'completed_at', label: 'Completed' },
+  { key: 'duration_seconds', label: 'Time taken' },
+];
+
+export const Gradebook = ({ exams }: GradebookProps) => {
+  const navigate = useNavigate();
+  const [selectedExamId, setSelectedExamId] = useState('');
+  const [rows, setRows] = useState<GradebookRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [resultFilter, setResultFilter] = useState('all');
+  const [sortKey, setSortKey] = useState<GradebookSortKey>('completed_at');
+  const [ascending, setAscending] = useState(false);
+
+  const fetchAttempts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('exam_attempts')
+        .select('id, status, score, total_marks, percentage, passed, started_at, completed_at, profiles(full_name, email)')
+        .eq('exam_id', selectedExamId);
+
+      if (error) throw error;
+      setRows((data || []).map(toGradebookRow));
+    } catch (error) {
+      console.error('Error fetching results:', error);
+      toast.error('Failed to load results');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedExamId]);
+
+  useEffect(() => {
+    if (selectedExamId) {
+      fetchAttempts();
+    }
+  }, [selectedExamId, fetchAttempts]);
+
+  const handleSort = (key: GradebookSortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(key === 'name' || key === 'email');
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleRows = sortGradebook(
+    rows.filter(row =>
+      (!query || row.name.toLowerCase().includes(query) || row.email.toLowerCase().includes(query)) &&
+      (statusFilter === 'all' || row.status === statusFilter) &&
+      (resultFilter === 'all' || (resultFilter === 'passed' ? row.passed === true : row.passed === false))
+    ),
+    sortKey,
+    ascending
+  );
+
+  const examTitle = exams.find(exam => exam.id === selectedExamId)?.title ?? 'exam';
+
+  const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Table2 className="h-5 w-5" />
+              Results
+            </CardTitle>
+            <CardDescription>
+              Every attempt at an exam. Exports include only the rows matching the current filters.
+            </CardDescription>
+          </div>
+          {selectedExamId && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={visibleRows.length === 0}
+                onClick={() => exportGradebookCsv(visibleRows, examTitle)}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={visibleRows.length === 0}
+                onClick={() => exportGradebookXlsx(visibleRows, examTitle).catch(error => {
+                  console.error('Error exporting results:', error);
+                  toast.error('Failed to export results');
+                })}
+              >
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                XLSX
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="results-exam">Exam</Label>
+            <Select value={selectedExamId} onValueChange={setSelectedExamId}>
+              <SelectTrigger id="results-exam">
+                <SelectValue placeholder="Select exam" />
+              </SelectTrigger>
+              <SelectContent>
+                {exams.map((exam) => (
+                  <SelectItem key={exam.id} value={exam.id}>
+                    {exam.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="results-search">Student</Label>
+            <Input
+              id="results-search"
+              placeholder="Search name or email"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="results-status">Status</Label>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger id="results-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Object.entries(ATTEMPT_STATUS_LABELS).map(([status, label]) => (
+                  <SelectItem key={status} value={status}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="results-outcome">Result</Label>
+            <Select value={resultFilter} onValueChange={setResultFilter}>
+              <SelectTrigger id="results-outcome">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Passed and failed</SelectItem>
+                <SelectItem value="passed">Passed</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!selectedExamId ? null : loading ? (
+          <div className="text-center py-8">Loading results...</div>
+        ) : visibleRows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            {rows.length === 0 ? 'No attempts at this exam yet.' : 'No attempts match these filters.'}
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Showing {visibleRows.length} of {rows.length} attempts
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {COLUMNS.map((column) => (
+                    <TableHead key={column.key}>
+                      <button
+                        className="flex items-center gap-1 hover:text-foreground"
+                        onClick={() => handleSort(column.key)}
+                      >
+                        {column.label}
+                        {sortKey !== column.key ? (
+                          <ArrowUpDown className="h-3 w-3 opacity-50" />
+                        ) : ascending ? (
+                          <ArrowUp className="h-3 w-3" />
+                        ) : (
+                          <ArrowDown className="h-3 w-3" />
+                        )}
+                      </button>
+                    </TableHead>
+                  ))}
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map((row) => (
+                  <TableRow
+                    key={row.id}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/attempts/${row.id}`)}
+                  >
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell>{row.email}</TableCell>
+                    <TableCell>{row.score ?? '—'}/{row.total_marks}</TableCell>
+                    <TableCell>{row.percentage === null ? '—' : `${Math.round(row.percentage)}%`}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{ATTEMPT_STATUS_LABELS[row.status] ?? row.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">{formatTime(row.started_at)}</TableCell>
+                    <TableCell className="text-xs">{formatTime(row.completed_at)}</TableCell>
+                    <TableCell>{formatDuration(row.duration_seconds)}</TableCell>
+                    <TableCell>
+                      {row.passed !== null && (
+                        <Badge variant={row.passed ? 'default' : 'destructive'}>
+                          {row.passed ? 'Passed' : 'Failed'}
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
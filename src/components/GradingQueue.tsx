@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ClipboardCheck } from 'lucide-react';
+
+interface GradingQueueProps {
+  exams: { id: string; title: string }[];
+}
+
+export const GradingQueue = ({ exams }: GradingQueueProps) => {
+  const [selectedExamId, setSelectedExamId] = useState('');
+  const [responses, setResponses] = useState([]);
+  const [loading, setLoading] = useState(false);
+  const [gradeForms, setGradeForms] = useState<Record<string, { marks: string; feedback: string }>>({});
+
+  const fetchResponses = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('student_answers')
+        .select(`
+          id,
+          attempt_id,
+          question_id,
+          answer_text,
+          marks_awarded,
+          created_at,
+          questions!inner(question_text, question_type, answer_key),
+          exam_attempts!inner(exam_id, status, completed_at, profiles(full_name, email), attempt_questions(question_id, marks))
+        `)
+        .eq('questions.question_type', 'essay')
+        .eq('exam_attempts.exam_id', selectedExamId)
+        .eq('exam_attempts.status', 'pending_review')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setResponses((data || [])
+        .filter(answer => answer.marks_awarded === null)
+        .map(answer => ({
+          ...answer,
+          marks: answer.exam_attempts.attempt_questions.find(aq => aq.question_id === answer.question_id)?.marks
+        })));
+    } catch (error) {
+      console.error('Error fetching responses:', error);
+      toast.error('Failed to load responses to grade');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedExamId]);
+
+  useEffect(() => {
+    if (selectedExamId) {
+      fetchResponses();
+    }
+  }, [selectedExamId, fetchResponses]);
+
+  const updateGradeForm = (answerId: string, updates: Partial<{ marks: string; feedback: string }>) => {
+    setGradeForms(prev => ({
+      ...prev,
+      [answerId]: { marks: '', feedback: '', ...prev[answerId], ...updates }
+    }));
+  };
+
+  const submitGrade = async (answerId: string, maxMarks: number) => {
+    const form = gradeForms[answerId];
+    const marks = Number(form?.marks);
+
+    if (!form?.marks || isNaN(marks) || marks < 0 || marks > maxMarks) {
+      toast.error(`Enter marks between 0 and ${maxMarks}`);
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('grade_essay_answer', {
+        _answer_id: answerId,
+        _marks: marks,
+        _feedback: form.feedback
+      });
+
+      if (error) throw error;
+
+      toast.success('Answer graded');
+      setResponses(prev => prev.filter(response => response.id !== answerId));
+    } catch (error) {
+      console.error('Error grading answer:', error);
+      toast.error('Failed to save grade');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Grading
+        </CardTitle>
+        <CardDescription>
+          Mark essay answers. Attempts are finalized once every essay in them is graded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-w-sm">
+          <Label htmlFor="grading-exam">Exam</Label>
+          <Select value={selectedExamId} onValueChange={setSelectedExamId}>
+            <SelectTrigger id="grading-exam">
+              <SelectValue placeholder="Select exam" />
+            </SelectTrigger>
+            <SelectContent>
+              {exams.map((exam) => (
+                <SelectItem key={exam.id} value={exam.id}>
+                  {exam.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!selectedExamId ? null : loading ? (
+          <div className="text-center py-8">Loading responses...</div>
+        ) : responses.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Nothing left to grade for this exam.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {responses.map((response) => (
+              <div key={response.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="font-medium text-foreground">
+                      {response.exam_attempts?.profiles?.full_name}
+                    </h3>
+                    <p className="text-xs text-muted-foreground">
+                      {response.exam_attempts?.profiles?.email} · Submitted{' '}
+                      {new Date(response.exam_attempts?.completed_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <Badge variant="secondary">{response.marks} marks</Badge>
+                </div>
+
+                <p className="font-medium">{response.questions.question_text}</p>
+                {response.questions.answer_key?.rubric && (
+                  <p className="text-sm text-muted-foreground">
+                    <span className="font-medium">Rubric:</span> {response.questions.answer_key.rubric}
+                  </p>
+                )}
+                <div className="p-3 rounded bg-muted text-sm whitespace-pre-wrap">
+                  {response.answer_text}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                  <div>
+                    <Label htmlFor={`marks-${response.id}`}>Marks</Label>
+                    <Input
+                      id={`marks-${response.id}`}
+                      type="number"
+                      min="0"
+                      max={response.marks}
+                      step="0.5"
+                      value={gradeForms[response.id]?.marks ?? ''}
+                      onChange={(e) => updateGradeForm(response.id, { marks: e.target.value })}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label htmlFor={`feedback-${response.id}`}>Feedback</Label>
+                    <Textarea
+                      id={`feedback-${response.id}`}
+                      rows={1}
+                      value={gradeForms[response.id]?.feedback ?? ''}
+                      onChange={(e) => updateGradeForm(response.id, { feedback: e.target.value })}
+                    />
+                  </div>
+                  <Button onClick={() => submitGrade(response.id, response.marks)}>
+                    Save Grade
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,239 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { AlertTriangle, BarChart3 } from 'lucide-react';
+import { OPTION_LETTERS, QUESTION_TYPE_LABELS, QuestionType } from '@/lib/questionTypes';
+import {
+  ExamAnalysis,
+  analyseExam,
+  difficultyLabel,
+  discriminationLabel,
+  reliabilityLabel,
+} from '@/lib/itemAnalysis';
+
+interface ItemAnalysisProps {
+  exams: { id: string; title: string }[];
+}
+
+const itemChartConfig = {
+  pValue: { label: 'Difficulty (p)', color: 'hsl(var(--primary))' },
+  discrimination: { label: 'Discrimination', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const distractorChartConfig = {
+  count: { label: 'Students', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const formatStat = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+export const ItemAnalysis = ({ exams }: ItemAnalysisProps) => {
+  const [selectedExamId, setSelectedExamId] = useState('');
+  const [analysis, setAnalysis] = useState<ExamAnalysis | null>(null);
+  const [selectedQuestionId, setSelectedQuestionId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchAnalysis = useCallback(async () => {
+    setLoading(true);
+    setSelectedQuestionId(null);
+    try {
+      const { data, error } = await supabase.rpc('get_item_responses', { _exam_id: selectedExamId });
+
+      if (error) throw error;
+      setAnalysis(analyseExam(data || []));
+    } catch (error) {
+      console.error('Error analysing exam:', error);
+      toast.error('Failed to load item analysis');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedExamId]);
+
+  useEffect(() => {
+    if (selectedExamId) {
+      fetchAnalysis();
+    }
+  }, [selectedExamId, fetchAnalysis]);
+
+  const chartData = analysis?.items.map((item, index) => ({
+    question: `Q${index + 1}`,
+    pValue: Number(item.pValue.toFixed(2)),
+    discrimination: item.discrimination === null ? 0 : Number(item.discrimination.toFixed(2)),
+  })) ?? [];
+
+  const selectedItem = analysis?.items.find(item => item.questionId === selectedQuestionId);
+  const distractorData = selectedItem?.optionCounts
+    ? [...OPTION_LETTERS, 'blank' as const].map(letter => ({
+        option: letter === 'blank' ? 'Blank' : letter,
+        count: selectedItem.optionCounts[letter],
+        isKey: letter === selectedItem.correctAnswer,
+      }))
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5" />
+          Item Analysis
+        </CardTitle>
+        <CardDescription>
+          How each question performed across completed attempts. Statistics settle down after about
+          30 attempts; treat smaller samples as a rough guide.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="max-w-sm">
+          <Label htmlFor="analysis-exam">Exam</Label>
+          <Select value={selectedExamId} onValueChange={setSelectedExamId}>
+            <SelectTrigger id="analysis-exam">
+              <SelectValue placeholder="Select exam" />
+            </SelectTrigger>
+            <SelectContent>
+              {exams.map((exam) => (
+                <SelectItem key={exam.id} value={exam.id}>
+                  {exam.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!selectedExamId ? null : loading ? (
+          <div className="text-center py-8">Analysing attempts...</div>
+        ) : !analysis || analysis.attempts === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No completed attempts at this exam yet.
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="p-4 border rounded-lg">
+                <p className="text-sm text-muted-foreground">Completed attempts</p>
+                <p className="text-2xl font-bold">{analysis.attempts}</p>
+              </div>
+              <div className="p-4 border rounded-lg">
+                <p className="text-sm text-muted-foreground">Reliability (KR-20)</p>
+                <p className="text-2xl font-bold">
+                  {formatStat(analysis.kr20)}{' '}
+                  <span className="text-sm font-normal text-muted-foreground">{reliabilityLabel(analysis.kr20)}</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Over the {analysis.kr20Items} questions every attempt received
+                </p>
+              </div>
+              <div className="p-4 border rounded-lg">
+                <p className="text-sm text-muted-foreground">Flagged questions</p>
+                <p className="text-2xl font-bold">{analysis.items.filter(item => item.flags.length > 0).length}</p>
+              </div>
+            </div>
+
+            <ChartContainer config={itemChartConfig} className="h-64 w-full">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="question" tickLine={false} axisLine={false} />
+                <YAxis domain={[-1, 1]} tickLine={false} axisLine={false} width={32} />
+                <ReferenceLine y={0} stroke="hsl(var(--border))" />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="pValue" fill="var(--color-pValue)" radius={2} />
+                <Bar dataKey="discrimination" fill="var(--color-discrimination)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Responses</TableHead>
+                  <TableHead>Difficulty (p)</TableHead>
+                  <TableHead>Discrimination</TableHead>
+                  <TableHead>A / B / C / D / blank</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analysis.items.map((item, index) => (
+                  <TableRow
+                    key={item.questionId}
+                    className={`cursor-pointer ${item.questionId === selectedQuestionId ? 'bg-muted' : ''}`}
+                    onClick={() => setSelectedQuestionId(item.questionId)}
+                  >
+                    <TableCell>Q{index + 1}</TableCell>
+                    <TableCell className="max-w-sm">
+                      <p className="truncate">{item.questionText}</p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        <Badge variant="outline">{QUESTION_TYPE_LABELS[item.questionType as QuestionType]}</Badge>
+                        {item.flags.map((flag) => (
+                          <Badge key={flag} variant="destructive" className="gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            {flag}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{item.responses}</TableCell>
+                    <TableCell>
+                      {formatStat(item.pValue)}{' '}
+                      <span className="text-xs text-muted-foreground">{difficultyLabel(item.pValue)}</span>
+                    </TableCell>
+                    <TableCell>
+                      {formatStat(item.discrimination)}{' '}
+                      <span className="text-xs text-muted-foreground">{discriminationLabel(item.discrimination)}</span>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {item.optionCounts
+                        ? [...OPTION_LETTERS, 'blank' as const].map((letter) => (
+                            <span
+                              key={letter}
+                              className={letter === item.correctAnswer ? 'font-bold text-green-700' : ''}
+                            >
+                              {item.optionCounts[letter]}{letter !== 'blank' && ' / '}
+                            </span>
+                          ))
+                        : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {selectedItem && (
+              <div className="border rounded-lg p-4 space-y-3">
+                <p className="font-medium">{selectedItem.questionText}</p>
+                {distractorData.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Option counts are only shown for multiple choice questions.
+                  </p>
+                ) : (
+                  <ChartContainer config={distractorChartConfig} className="h-48 w-full max-w-md">
+                    <BarChart data={distractorData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="option" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+                      <Bar dataKey="count" radius={2}>
+                        {distractorData.map((entry) => (
+                          <Cell
+                            key={entry.option}
+                            fill={entry.isKey ? 'hsl(var(--primary))' : 'var(--color-count)'}
+                          />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
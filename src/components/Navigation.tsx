@@ -1,8 +1,9 @@
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { LogOut, User, BookOpen, Settings } from 'lucide-react';
+import { LogOut, User, BookOpen, Settings, TrendingUp } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { isStaffRole, ROLE_LABELS } from '@/lib/roles';
 
 export const Navigation = () => {
   const { user, userProfile, signOut } = useAuth();
@@ -32,19 +33,30 @@ export const Navigation = () => {
               <span className="text-sm text-foreground">
                 {userProfile?.full_name || user.email}
               </span>
-              <Badge variant={userProfile?.role === 'admin' ? 'default' : 'secondary'}>
-                {userProfile?.role || 'student'}
+              <Badge variant={isStaffRole(userProfile?.role) ? 'default' : 'secondary'}>
+                {ROLE_LABELS[userProfile?.role] || ROLE_LABELS.student}
               </Badge>
             </div>
 
-            {userProfile?.role === 'admin' && (
+            {userProfile?.role === 'student' && (
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => navigate('/progress')}
+              >
+                <TrendingUp className="h-4 w-4 mr-2" />
+                My Progress
+              </Button>
+            )}
+
+            {isStaffRole(userProfile?.role) && (
               <Button 
                 variant="outline" 
                 size="sm"
                 onClick={() => navigate('/admin')}
               >
                 <Settings className="h-4 w-4 mr-2" />
-                Admin Panel
+                {userProfile.role === 'admin' ? 'Admin Panel' : 'Instructor Panel'}
               </Button>
             )}
 
@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { ShieldAlert } from 'lucide-react';
+import { ATTEMPT_STATUS_LABELS, formatDuration } from '@/lib/gradebook';
+import { ATTEMPT_EVENT_LABELS, AttemptEventType, isViolation } from '@/lib/proctoring';
+
+interface ProctoringLogProps {
+  exams: { id: string; title: string }[];
+}
+
+interface LoggedEvent {
+  id: string;
+  event_type: string;
+  details: Record<string, string | number> | null;
+  occurred_at: string;
+}
+
+interface MonitoredAttempt {
+  id: string;
+  status: string;
+  started_at: string;
+  profiles: { full_name: string; email: string } | null;
+  attempt_events: LoggedEvent[];
+}
+
+// Informational events such as the developer tools check are shown in the timeline only
+const warningCount = (attempt: MonitoredAttempt) =>
+  attempt.attempt_events.filter(event => isViolation(event.event_type)).length;
+
+const formatDetails = (details: LoggedEvent['details']) =>
+  details ? Object.entries(details).map(([key, value]) => `${key}: ${value}`).join(', ') : '';
+
+export const ProctoringLog = ({ exams }: ProctoringLogProps) => {
+  const [selectedExamId, setSelectedExamId] = useState('');
+  const [attempts, setAttempts] = useState<MonitoredAttempt[]>([]);
+  const [selectedAttemptId, setSelectedAttemptId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    setSelectedAttemptId(null);
+    try {
+      const { data, error } = await supabase
+        .from('exam_attempts')
+        .select('id, status, started_at, profiles(full_name, email), attempt_events(id, event_type, details, occurred_at)')
+        .eq('exam_id', selectedExamId)
+        .order('started_at', { ascending: false });
+
+      if (error) throw error;
+
+      // Attempts with the most warnings first, each timeline in the order it happened
+      setAttempts(((data || []) as MonitoredAttempt[])
+        .map(attempt => ({
+          ...attempt,
+          attempt_events: [...attempt.attempt_events].sort((a, b) => a.occurred_at.localeCompare(b.occurred_at)),
+        }))
+        .sort((a, b) => warningCount(b) - warningCount(a)));
+    } catch (error) {
+      console.error('Error fetching attempt events:', error);
+      toast.error('Failed to load proctoring events');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedExamId]);
+
+  useEffect(() => {
+    if (selectedExamId) {
+      fetchEvents();
+    }
+  }, [selectedExamId, fetchEvents]);
+
+  const selectedAttempt = attempts.find(attempt => attempt.id === selectedAttemptId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Proctoring
+          </CardTitle>
+          <CardDescription>
+            Integrity events logged while students sat an exam. Select an attempt to see its timeline.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="max-w-xs">
+            <Label htmlFor="proctoring-exam">Exam</Label>
+            <Select value={selectedExamId} onValueChange={setSelectedExamId}>
+              <SelectTrigger id="proctoring-exam">
+                <SelectValue placeholder="Select exam" />
+              </SelectTrigger>
+              <SelectContent>
+                {exams.map((exam) => (
+                  <SelectItem key={exam.id} value={exam.id}>
+                    {exam.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!selectedExamId ? null : loading ? (
+            <div className="text-center py-8">Loading events...</div>
+          ) : attempts.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No attempts at this exam yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Warnings</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attempts.map((attempt) => (
+                  <TableRow
+                    key={attempt.id}
+                    className="cursor-pointer"
+                    data-state={attempt.id === selectedAttemptId ? 'selected' : undefined}
+                    onClick={() => setSelectedAttemptId(attempt.id)}
+                  >
+                    <TableCell>
+                      <div className="font-medium">{attempt.profiles?.full_name || 'Unknown student'}</div>
+                      <div className="text-xs text-muted-foreground">{attempt.profiles?.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{ATTEMPT_STATUS_LABELS[attempt.status] ?? attempt.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">{new Date(attempt.started_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={warningCount(attempt) > 0 ? 'destructive' : 'outline'}>
+                        {warningCount(attempt)}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedAttempt && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Timeline for {selectedAttempt.profiles?.full_name || 'Unknown student'}</CardTitle>
+            <CardDescription>
+              Started {new Date(selectedAttempt.started_at).toLocaleString()}. Times are shown from the start of the attempt.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {selectedAttempt.attempt_events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing was logged during this attempt.</p>
+            ) : (
+              <ol className="relative border-l ml-2 space-y-4">
+                {selectedAttempt.attempt_events.map((event) => (
+                  <li key={event.id} className="ml-4">
+                    <div
+                      className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${
+                        isViolation(event.event_type) ? 'bg-destructive' : 'bg-muted-foreground'
+                      }`}
+                    />
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-mono text-muted-foreground">
+                        +{formatDuration(Math.max(0, Math.round(
+                          (new Date(event.occurred_at).getTime() - new Date(selectedAttempt.started_at).getTime()) / 1000
+                        )))}
+                      </span>
+                      <span className="font-medium">
+                        {ATTEMPT_EVENT_LABELS[event.event_type as AttemptEventType] ?? event.event_type}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(event.occurred_at).toLocaleTimeString()}
+                      {event.details && ` · ${formatDetails(event.details)}`}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Library, Plus, Search } from 'lucide-react';
+import { AnswerKeySummary } from '@/components/AnswerKeySummary';
+import { DIFFICULTY_LEVELS, QUESTION_TYPE_LABELS, QuestionType } from '@/lib/questionTypes';
+
+interface QuestionBankProps {
+  subjects: { id: string; name: string }[];
+  exams: { id: string; title: string; subject_id: string | null }[];
+}
+
+export const QuestionBank = ({ subjects, exams }: QuestionBankProps) => {
+  const [questions, setQuestions] = useState([]);
+  const [loading, setLoading] = useState(false);
+  const [subjectFilter, setSubjectFilter] = useState('all');
+  const [difficultyFilter, setDifficultyFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  // The text filters apply when the search form is submitted, not on every keystroke
+  const [textFilters, setTextFilters] = useState({ search: '', tag: '' });
+  const [targetExamId, setTargetExamId] = useState('');
+
+  const fetchQuestions = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('questions')
+        .select(`
+          *,
+          subjects(name),
+          exam_questions(exam_id)
+        `)
+        .order('created_at', { ascending: false });
+
+      if (subjectFilter !== 'all') query = query.eq('subject_id', subjectFilter);
+      if (difficultyFilter !== 'all') query = query.eq('difficulty', difficultyFilter);
+      if (typeFilter !== 'all') query = query.eq('question_type', typeFilter);
+      if (textFilters.search) query = query.ilike('question_text', `%${textFilters.search}%`);
+      if (textFilters.tag) query = query.contains('tags', [textFilters.tag]);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setQuestions(data || []);
+    } catch (error) {
+      console.error('Error fetching question bank:', error);
+      toast.error('Failed to load question bank');
+    } finally {
+      setLoading(false);
+    }
+  }, [subjectFilter, difficultyFilter, typeFilter, textFilters]);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  const addToExam = async (question) => {
+    if (!targetExamId) {
+      toast.error('Select an exam to add questions to');
+      return;
+    }
+
+    try {
+      const { data: lastLink, error: orderError } = await supabase
+        .from('exam_questions')
+        .select('order_number')
+        .eq('exam_id', targetExamId)
+        .order('order_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (orderError) throw orderError;
+
+      const { error } = await supabase
+        .from('exam_questions')
+        .insert({
+          exam_id: targetExamId,
+          question_id: question.id,
+          marks: question.marks,
+          order_number: (lastLink?.order_number ?? 0) + 1
+        });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('This question is already in the selected exam');
+          return;
+        }
+        throw error;
+      }
+
+      toast.success('Question added to exam');
+      fetchQuestions();
+    } catch (error) {
+      console.error('Error adding question to exam:', error);
+      toast.error('Failed to add question to exam');
+    }
+  };
+
+  const examTitle = (examId: string) => exams.find(exam => exam.id === examId)?.title;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Library className="h-5 w-5" />
+          Question Bank
+        </CardTitle>
+        <CardDescription>
+          Browse questions across subjects and reuse them in any exam ({questions.length} shown)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setTextFilters({ search: search.trim(), tag: tagFilter.trim() });
+          }}
+          className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end"
+        >
+          <div className="md:col-span-2">
+            <Label htmlFor="bank-search">Search</Label>
+            <Input
+              id="bank-search"
+              placeholder="Question text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="bank-tag">Topic</Label>
+            <Input
+              id="bank-tag"
+              placeholder="e.g. Algebra"
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Subject</Label>
+            <Select value={subjectFilter} onValueChange={setSubjectFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All subjects</SelectItem>
+                {subjects.map((subject) => (
+                  <SelectItem key={subject.id} value={subject.id}>{subject.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Difficulty</Label>
+            <Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any difficulty</SelectItem>
+                {DIFFICULTY_LEVELS.map((level) => (
+                  <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Type</Label>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any type</SelectItem>
+                {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" variant="outline" className="md:col-start-6">
+            <Search className="h-4 w-4 mr-2" />
+            Search
+          </Button>
+        </form>
+
+        <div className="max-w-sm">
+          <Label>Add questions to</Label>
+          <Select value={targetExamId} onValueChange={setTargetExamId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select exam" />
+            </SelectTrigger>
+            <SelectContent>
+              {exams.map((exam) => (
+                <SelectItem key={exam.id} value={exam.id}>{exam.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8">Loading questions...</div>
+        ) : questions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No questions match these filters.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {questions.map((question) => {
+              const usedIn = question.exam_questions.map(link => link.exam_id);
+              return (
+                <div key={question.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex flex-wrap items-center gap-2 mb-2">
+                        <Badge variant="outline">{question.subjects?.name}</Badge>
+                        <Badge variant="outline">{QUESTION_TYPE_LABELS[question.question_type as QuestionType]}</Badge>
+                        <Badge variant="secondary">{question.marks} marks</Badge>
+                        {question.difficulty && (
+                          <Badge variant="outline" className="capitalize">{question.difficulty}</Badge>
+                        )}
+                        {question.tags.map((tag) => (
+                          <Badge key={tag} variant="secondary">{tag}</Badge>
+                        ))}
+                      </div>
+                      <p className="font-medium text-foreground mb-3">{question.question_text}</p>
+                      <AnswerKeySummary question={question} />
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {usedIn.length === 0
+                          ? 'Not used in any exam'
+                          : `Used in: ${usedIn.map(examTitle).filter(Boolean).join(', ')}`}
+                      </p>
+                    </div>
+
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="ml-4"
+                      disabled={!targetExamId || usedIn.includes(targetExamId)}
+                      onClick={() => addToExam(question)}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add to exam
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
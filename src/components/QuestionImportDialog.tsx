@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Upload } from 'lucide-react';
+import { QUESTION_TYPE_LABELS, formToQuestion } from '@/lib/questionTypes';
+import { IMPORT_FORMAT_LABELS, ImportFormat, ImportRow, detectImportFormat, parseQuestions } from '@/lib/questionImport';
+
+interface QuestionImportDialogProps {
+  examId: string;
+  subjectId: string;
+  nextOrderNumber: number;
+  onImported: () => void;
+}
+
+export const QuestionImportDialog = ({ examId, subjectId, nextOrderNumber, onImported }: QuestionImportDialogProps) => {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [source, setSource] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  const validRows = rows.filter(row => row.form && !row.error);
+
+  const preview = (nextFormat: ImportFormat, text: string) => {
+    setFormat(nextFormat);
+    setSource(text);
+    setRows(text.trim() ? parseQuestions(nextFormat, text) : []);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    preview(detectImportFormat(file.name, text), text);
+  };
+
+  const reset = () => {
+    setSource('');
+    setRows([]);
+  };
+
+  const handleImport = async () => {
+    if (validRows.length === 0) {
+      toast.error('There are no valid questions to import');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const { data: inserted, error } = await supabase
+        .from('questions')
+        .insert(validRows.map(row => ({
+          ...formToQuestion(row.form),
+          marks: row.form.marks,
+          subject_id: subjectId,
+          created_by: user?.id
+        })))
+        .select('id, marks');
+
+      if (error) throw error;
+
+      // Imported questions follow the exam's existing ones in file order
+      const { error: linkError } = await supabase
+        .from('exam_questions')
+        .insert(inserted.map((question, index) => ({
+          exam_id: examId,
+          question_id: question.id,
+          marks: question.marks,
+          order_number: nextOrderNumber + index
+        })));
+
+      if (linkError) throw linkError;
+
+      toast.success(`Imported ${inserted.length} questions`);
+      reset();
+      setIsOpen(false);
+      onImported();
+    } catch (error) {
+      console.error('Error importing questions:', error);
+      toast.error('Failed to import questions');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>
+            Upload or paste CSV (question, A, B, C, D, correct, marks), JSON, Moodle GIFT or Aiken text.
+            Rows with errors are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.json,.gift,.txt"
+                onChange={handleFile}
+              />
+            </div>
+            <div>
+              <Label htmlFor="import-format">Format</Label>
+              <Select value={format} onValueChange={(value) => preview(value as ImportFormat, source)}>
+                <SelectTrigger id="import-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(IMPORT_FORMAT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="import-source">Questions</Label>
+            <Textarea
+              id="import-source"
+              rows={6}
+              className="font-mono text-xs"
+              placeholder="Or paste questions here"
+              value={source}
+              onChange={(e) => preview(format, e.target.value)}
+            />
+          </div>
+
+          {rows.length > 0 && (
+            <>
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="secondary">{validRows.length} ready</Badge>
+                {rows.length > validRows.length && (
+                  <Badge variant="destructive">{rows.length - validRows.length} with errors</Badge>
+                )}
+              </div>
+              <div className="border rounded-lg max-h-72 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Question</TableHead>
+                      <TableHead className="w-32">Type</TableHead>
+                      <TableHead className="w-16">Marks</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell className="max-w-xs truncate">{row.form?.question_text}</TableCell>
+                        <TableCell>{row.form && QUESTION_TYPE_LABELS[row.form.question_type]}</TableCell>
+                        <TableCell>{row.form?.marks}</TableCell>
+                        <TableCell>
+                          {row.error ? (
+                            <span className="text-destructive">{row.error}</span>
+                          ) : (
+                            <span className="text-muted-foreground">OK</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={importing || validRows.length === 0}>
+              {importing ? 'Importing...' : `Import ${validRows.length} Questions`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,15 +11,37 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { Plus, Edit, Trash2, FileQuestion } from 'lucide-react';
+import { QuestionTypeFields } from '@/components/QuestionTypeFields';
+import { AnswerKeySummary } from '@/components/AnswerKeySummary';
+import { QuestionImportDialog } from '@/components/QuestionImportDialog';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  DIFFICULTY_LEVELS,
+  QUESTION_TYPE_LABELS,
+  QuestionForm,
+  QuestionType,
+  emptyQuestionForm,
+  formToQuestion,
+  questionToForm,
+  validateQuestionForm,
+} from '@/lib/questionTypes';
 
+// A bank question as linked into this exam; marks and order come from exam_questions
 interface Question {
   id: string;
+  link_id: string;
+  question_type: string;
   question_text: string;
-  option_a: string;
-  option_b: string;
-  option_c: string;
-  option_d: string;
-  correct_answer: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  correct_answer: string | null;
+  options: Json | null;
+  answer_key: Json | null;
+  tags: string[];
+  difficulty: string | null;
+  explanation: string | null;
   marks: number;
   order_number: number;
 }
@@ -26,24 +49,17 @@ interface Question {
 interface QuestionManagerProps {
   examId: string;
   examTitle: string;
+  subjectId: string;
 }
 
-export const QuestionManager = ({ examId, examTitle }: QuestionManagerProps) => {
+export const QuestionManager = ({ examId, examTitle, subjectId }: QuestionManagerProps) => {
+  const { user } = useAuth();
   const [questions, setQuestions] = useState<Question[]>([]);
   const [loading, setLoading] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
   
-  const [questionForm, setQuestionForm] = useState({
-    question_text: '',
-    option_a: '',
-    option_b: '',
-    option_c: '',
-    option_d: '',
-    correct_answer: '',
-    marks: 1,
-    order_number: 1
-  });
+  const [questionForm, setQuestionForm] = useState<QuestionForm>(emptyQuestionForm(1));
 
   useEffect(() => {
     fetchQuestions();
@@ -53,13 +69,18 @@ export const QuestionManager = ({ examId, examTitle }: QuestionManagerProps) =>
     setLoading(true);
     try {
       const { data, error } = await supabase
-        .from('questions')
-        .select('*')
+        .from('exam_questions')
+        .select('id, marks, order_number, questions(*)')
         .eq('exam_id', examId)
         .order('order_number', { ascending: true });
 
       if (error) throw error;
-      setQuestions(data || []);
+      setQuestions((data || []).map(link => ({
+        ...link.questions,
+        link_id: link.id,
+        marks: link.marks,
+        order_number: link.order_number
+      })));
     } catch (error) {
       console.error('Error fetching questions:', error);
       toast.error('Failed to load questions');
@@ -69,45 +90,64 @@ export const QuestionManager = ({ examId, examTitle }: QuestionManagerProps) =>
   };
 
   const resetForm = () => {
-    setQuestionForm({
-      question_text: '',
-      option_a: '',
-      option_b: '',
-      option_c: '',
-      option_d: '',
-      correct_answer: '',
-      marks: 1,
-      order_number: questions.length + 1
-    });
+    setQuestionForm(emptyQuestionForm(questions.length + 1));
     setEditingQuestion(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!questionForm.correct_answer) {
-      toast.error('Please select the correct answer');
+    const validationError = validateQuestionForm(questionForm);
+    if (validationError) {
+      toast.error(validationError);
       return;
     }
 
     try {
+      const link = {
+        marks: questionForm.marks,
+        order_number: questionForm.order_number
+      };
+
       if (editingQuestion) {
         const { error } = await supabase
           .from('questions')
-          .update(questionForm)
+          .update(formToQuestion(questionForm))
           .eq('id', editingQuestion.id);
 
         if (error) throw error;
+
+        const { error: linkError } = await supabase
+          .from('exam_questions')
+          .update(link)
+          .eq('id', editingQuestion.link_id);
+
+        if (linkError) throw linkError;
         toast.success('Question updated successfully');
       } else {
-        const { error } = await supabase
+        // New questions go into the subject's bank and are linked into this exam
+        const { data: newQuestion, error } = await supabase
           .from('questions')
           .insert({
-            ...questionForm,
-            exam_id: examId
-          });
+            ...formToQuestion(questionForm),
+            marks: questionForm.marks,
+            subject_id: subjectId,
+            created_by: user?.id
+          })
+          .select('id')
+          .single();
 
         if (error) throw error;
+
+        const { error: linkError } = await supabase
+          .from('exam_questions')
+          .insert({
+            ...link,
+            exam_id: examId,
+            question_id: newQuestion.id
+          });
+
+        if (linkError) throw linkError;
         toast.success('Question created successfully');
       }
 
@@ -122,59 +162,30 @@ export const QuestionManager = ({ examId, examTitle }: QuestionManagerProps) =>
 
   const handleEdit = (question: Question) => {
     setEditingQuestion(question);
-    setQuestionForm({
-      question_text: question.question_text,
-      option_a: question.option_a,
-      option_b: question.option_b,
-      option_c: question.option_c,
-      option_d: question.option_d,
-      correct_answer: question.correct_answer,
-      marks: question.marks,
-      order_number: question.order_number
-    });
+    setQuestionForm(questionToForm(question));
     setIsDialogOpen(true);
   };
 
-  const handleDelete = async (questionId: string) => {
-    if (!confirm('Are you sure you want to delete this question?')) {
+  const handleRemove = async (linkId: string) => {
+    if (!confirm('Remove this question from the exam? It stays in the question bank.')) {
       return;
     }
 
     try {
       const { error } = await supabase
-        .from('questions')
+        .from('exam_questions')
         .delete()
-        .eq('id', questionId);
+        .eq('id', linkId);
 
       if (error) throw error;
-      toast.success('Question deleted successfully');
+      toast.success('Question removed from exam');
       fetchQuestions();
     } catch (error) {
-      console.error('Error deleting question:', error);
-      toast.error('Failed to delete question');
-    }
-  };
-
-  const updateExamTotalMarks = async () => {
-    const totalMarks = questions.reduce((sum, q) => sum + q.marks, 0);
-    try {
-      const { error } = await supabase
-        .from('exams')
-        .update({ total_marks: totalMarks })
-        .eq('id', examId);
-
-      if (error) throw error;
-    } catch (error) {
-      console.error('Error updating exam total marks:', error);
+      console.error('Error removing question:', error);
+      toast.error('Failed to remove question');
     }
   };
 
-  useEffect(() => {
-    if (questions.length > 0) {
-      updateExamTotalMarks();
-    }
-  }, [questions]);
-
   return (
     <Card>
       <CardHeader>
@@ -188,129 +199,145 @@ export const QuestionManager = ({ examId, examTitle }: QuestionManagerProps) =>
               Manage questions and answers for this exam ({questions.length} questions)
             </CardDescription>
           </div>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={resetForm}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Question
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>
-                  {editingQuestion ? 'Edit Question' : 'Add New Question'}
-                </DialogTitle>
-                <DialogDescription>
-                  Create a multiple choice question with four options.
-                </DialogDescription>
-              </DialogHeader>
+          <div className="flex gap-2">
+            <QuestionImportDialog
+              examId={examId}
+              subjectId={subjectId}
+              nextOrderNumber={Math.max(0, ...questions.map(q => q.order_number)) + 1}
+              onImported={fetchQuestions}
+            />
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={resetForm}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Question
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingQuestion ? 'Edit Question' : 'Add New Question'}
+                  </DialogTitle>
+                  <DialogDescription>
+                    {editingQuestion
+                      ? 'Changes to the question apply to every exam that uses it; marks and order apply to this exam only.'
+                      : 'Choose a question type, then enter the question and its answer key. It is also saved to the subject\'s question bank.'}
+                  </DialogDescription>
+                </DialogHeader>
               
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <Label htmlFor="marks">Marks</Label>
-                    <Input
-                      id="marks"
-                      type="number"
-                      min="1"
-                      value={questionForm.marks}
-                      onChange={(e) => setQuestionForm({...questionForm, marks: parseInt(e.target.value) || 1})}
-                      required
-                    />
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="question-type">Type</Label>
+                      <Select
+                        value={questionForm.question_type}
+                        onValueChange={(value) => setQuestionForm({
+                          ...questionForm,
+                          question_type: value as QuestionType,
+                          correct_answer: ''
+                        })}
+                      >
+                        <SelectTrigger id="question-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                            <SelectItem key={type} value={type}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="marks">Marks</Label>
+                      <Input
+                        id="marks"
+                        type="number"
+                        min="1"
+                        value={questionForm.marks}
+                        onChange={(e) => setQuestionForm({...questionForm, marks: parseInt(e.target.value) || 1})}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="order">Order</Label>
+                      <Input
+                        id="order"
+                        type="number"
+                        min="1"
+                        value={questionForm.order_number}
+                        onChange={(e) => setQuestionForm({...questionForm, order_number: parseInt(e.target.value) || 1})}
+                        required
+                      />
+                    </div>
                   </div>
+
                   <div>
-                    <Label htmlFor="order">Order</Label>
-                    <Input
-                      id="order"
-                      type="number"
-                      min="1"
-                      value={questionForm.order_number}
-                      onChange={(e) => setQuestionForm({...questionForm, order_number: parseInt(e.target.value) || 1})}
+                    <Label htmlFor="question">Question</Label>
+                    <Textarea
+                      id="question"
+                      value={questionForm.question_text}
+                      onChange={(e) => setQuestionForm({...questionForm, question_text: e.target.value})}
                       required
+                      rows={3}
                     />
                   </div>
-                </div>
 
-                <div>
-                  <Label htmlFor="question">Question</Label>
-                  <Textarea
-                    id="question"
-                    value={questionForm.question_text}
-                    onChange={(e) => setQuestionForm({...questionForm, question_text: e.target.value})}
-                    required
-                    rows={3}
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="tags">Topics</Label>
+                      <Input
+                        id="tags"
+                        placeholder="e.g. Algebra, Fractions"
+                        value={questionForm.tags}
+                        onChange={(e) => setQuestionForm({...questionForm, tags: e.target.value})}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="difficulty">Difficulty</Label>
+                      <Select
+                        value={questionForm.difficulty}
+                        onValueChange={(value) => setQuestionForm({...questionForm, difficulty: value})}
+                      >
+                        <SelectTrigger id="difficulty">
+                          <SelectValue placeholder="Not set" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DIFFICULTY_LEVELS.map((level) => (
+                            <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <QuestionTypeFields
+                    form={questionForm}
+                    onChange={(updates) => setQuestionForm({...questionForm, ...updates})}
                   />
-                </div>
 
-                <div className="grid grid-cols-1 gap-4">
-                  <div>
-                    <Label htmlFor="option-a">Option A</Label>
-                    <Input
-                      id="option-a"
-                      value={questionForm.option_a}
-                      onChange={(e) => setQuestionForm({...questionForm, option_a: e.target.value})}
-                      required
-                    />
-                  </div>
                   <div>
-                    <Label htmlFor="option-b">Option B</Label>
-                    <Input
-                      id="option-b"
-                      value={questionForm.option_b}
-                      onChange={(e) => setQuestionForm({...questionForm, option_b: e.target.value})}
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="option-c">Option C</Label>
-                    <Input
-                      id="option-c"
-                      value={questionForm.option_c}
-                      onChange={(e) => setQuestionForm({...questionForm, option_c: e.target.value})}
-                      required
+                    <Label htmlFor="explanation">Explanation (optional)</Label>
+                    <Textarea
+                      id="explanation"
+                      placeholder="Shown to students when they review their results"
+                      value={questionForm.explanation}
+                      onChange={(e) => setQuestionForm({...questionForm, explanation: e.target.value})}
+                      rows={2}
                     />
                   </div>
-                  <div>
-                    <Label htmlFor="option-d">Option D</Label>
-                    <Input
-                      id="option-d"
-                      value={questionForm.option_d}
-                      onChange={(e) => setQuestionForm({...questionForm, option_d: e.target.value})}
-                      required
-                    />
-                  </div>
-                </div>
-
-                <div>
-                  <Label htmlFor="correct-answer">Correct Answer</Label>
-                  <Select
-                    value={questionForm.correct_answer}
-                    onValueChange={(value) => setQuestionForm({...questionForm, correct_answer: value})}
-                    required
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select correct answer" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="A">A - {questionForm.option_a || 'Option A'}</SelectItem>
-                      <SelectItem value="B">B - {questionForm.option_b || 'Option B'}</SelectItem>
-                      <SelectItem value="C">C - {questionForm.option_c || 'Option C'}</SelectItem>
-                      <SelectItem value="D">D - {questionForm.option_d || 'Option D'}</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
 
-                <div className="flex justify-end gap-2">
-                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button type="submit">
-                    {editingQuestion ? 'Update Question' : 'Create Question'}
-                  </Button>
-                </div>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit">
+                      {editingQuestion ? 'Update Question' : 'Create Question'}
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </CardHeader>
       
@@ -329,24 +356,18 @@ export const QuestionManager = ({ examId, examTitle }: QuestionManagerProps) =>
                   <div className="flex-1">
                     <div className="flex items-center gap-2 mb-2">
                       <Badge variant="outline">Q{question.order_number}</Badge>
+                      <Badge variant="outline">{QUESTION_TYPE_LABELS[question.question_type as QuestionType]}</Badge>
                       <Badge variant="secondary">{question.marks} marks</Badge>
+                      {question.difficulty && (
+                        <Badge variant="outline" className="capitalize">{question.difficulty}</Badge>
+                      )}
+                      {question.tags.map((tag) => (
+                        <Badge key={tag} variant="secondary">{tag}</Badge>
+                      ))}
                     </div>
                     <p className="font-medium text-foreground mb-3">{question.question_text}</p>
                     
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
-                      <div className={`p-2 rounded ${question.correct_answer === 'A' ? 'bg-green-100 dark:bg-green-900/20 border-green-200' : 'bg-muted'}`}>
-                        <span className="font-medium">A:</span> {question.option_a}
-                      </div>
-                      <div className={`p-2 rounded ${question.correct_answer === 'B' ? 'bg-green-100 dark:bg-green-900/20 border-green-200' : 'bg-muted'}`}>
-                        <span className="font-medium">B:</span> {question.option_b}
-                      </div>
-                      <div className={`p-2 rounded ${question.correct_answer === 'C' ? 'bg-green-100 dark:bg-green-900/20 border-green-200' : 'bg-muted'}`}>
-                        <span className="font-medium">C:</span> {question.option_c}
-                      </div>
-                      <div className={`p-2 rounded ${question.correct_answer === 'D' ? 'bg-green-100 dark:bg-green-900/20 border-green-200' : 'bg-muted'}`}>
-                        <span className="font-medium">D:</span> {question.option_d}
-                      </div>
-                    </div>
+                    <AnswerKeySummary question={question} />
                   </div>
                   
                   <div className="flex gap-2 ml-4">
@@ -360,7 +381,7 @@ export const QuestionManager = ({ examId, examTitle }: QuestionManagerProps) =>
                     <Button
                       variant="destructive"
                       size="sm"
-                      onClick={() => handleDelete(question.id)}
+                      onClick={() => handleRemove(question.link_id)}
                     >
                       <Trash2 className="h-4 w-4" />
                     </Button>
@@ -0,0 +1,164 @@
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle } from 'lucide-react';
+import type { Json } from '@/integrations/supabase/types';
+import { AnswerValue, MatchingOptions, OPTION_LETTERS } from '@/lib/questionTypes';
+
+interface QuestionResponseProps {
+  question: {
+    question_type: string;
+    option_a: string | null;
+    option_b: string | null;
+    option_c: string | null;
+    option_d: string | null;
+    options: Json | null;
+  };
+  value: AnswerValue | undefined;
+  onChange: (value: AnswerValue) => void;
+}
+
+interface ChoiceButtonProps {
+  label?: string;
+  text: string;
+  isSelected: boolean;
+  onClick: () => void;
+}
+
+const ChoiceButton = ({ label, text, isSelected, onClick }: ChoiceButtonProps) => (
+  <button
+    onClick={onClick}
+    className={`w-full text-left p-4 rounded-lg border transition-colors ${
+      isSelected
+        ? 'border-primary bg-primary/10'
+        : 'border-border hover:border-primary/50 hover:bg-muted/50'
+    }`}
+  >
+    <div className="flex items-center gap-3">
+      <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+        isSelected
+          ? 'border-primary bg-primary text-primary-foreground'
+          : 'border-border'
+      }`}>
+        {isSelected && <CheckCircle className="h-4 w-4" />}
+      </div>
+      {label && <span className="font-medium">{label}.</span>}
+      <span>{text}</span>
+    </div>
+  </button>
+);
+
+export const QuestionResponse = ({ question, value, onChange }: QuestionResponseProps) => {
+  switch (question.question_type) {
+    case 'true_false':
+      return (
+        <div className="space-y-3">
+          {[['true', 'True'], ['false', 'False']].map(([option, text]) => (
+            <ChoiceButton
+              key={option}
+              text={text}
+              isSelected={value === option}
+              onClick={() => onChange(option)}
+            />
+          ))}
+        </div>
+      );
+
+    case 'multi_select': {
+      const selected = (value as number[] | undefined) ?? [];
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">Select all that apply.</p>
+          {((question.options ?? []) as string[]).map((text, index) => (
+            <ChoiceButton
+              key={index}
+              text={text}
+              isSelected={selected.includes(index)}
+              onClick={() => onChange(
+                selected.includes(index)
+                  ? selected.filter(i => i !== index)
+                  : [...selected, index].sort((a, b) => a - b)
+              )}
+            />
+          ))}
+        </div>
+      );
+    }
+
+    case 'numeric':
+      return (
+        <Input
+          type="number"
+          step="any"
+          placeholder="Enter a number"
+          value={value === undefined || value === null ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        />
+      );
+
+    case 'short_text':
+      return (
+        <Input
+          placeholder="Type your answer"
+          value={(value as string | undefined) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+
+    case 'essay':
+      return (
+        <Textarea
+          placeholder="Write your answer"
+          value={(value as string | undefined) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          rows={10}
+        />
+      );
+
+    case 'matching': {
+      const { prompts = [], choices = [] } = (question.options ?? {}) as unknown as MatchingOptions;
+      const matches = (value as (number | null)[] | undefined) ?? prompts.map(() => null);
+      return (
+        <div className="space-y-3">
+          {prompts.map((prompt, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-2 gap-2 items-center">
+              <span className="font-medium">{prompt}</span>
+              <Select
+                value={matches[index] === null || matches[index] === undefined ? '' : String(matches[index])}
+                onValueChange={(choice) => onChange(
+                  prompts.map((_, i) => (i === index ? Number(choice) : matches[i] ?? null))
+                )}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a match" />
+                </SelectTrigger>
+                <SelectContent>
+                  {choices.map((choice, choiceIndex) => (
+                    <SelectItem key={choiceIndex} value={String(choiceIndex)}>
+                      {choice}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <div className="space-y-3">
+          {OPTION_LETTERS.map((option) => (
+            <ChoiceButton
+              key={option}
+              label={option}
+              text={question[`option_${option.toLowerCase()}`]}
+              isSelected={value === option}
+              onClick={() => onChange(option)}
+            />
+          ))}
+        </div>
+      );
+  }
+};
@@ -0,0 +1,235 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { OPTION_LETTERS, QuestionForm } from '@/lib/questionTypes';
+
+interface QuestionTypeFieldsProps {
+  form: QuestionForm;
+  onChange: (updates: Partial<QuestionForm>) => void;
+}
+
+export const QuestionTypeFields = ({ form, onChange }: QuestionTypeFieldsProps) => {
+  switch (form.question_type) {
+    case 'mcq':
+      return (
+        <>
+          <div className="grid grid-cols-1 gap-4">
+            {OPTION_LETTERS.map((letter) => {
+              const field = `option_${letter.toLowerCase()}` as 'option_a' | 'option_b' | 'option_c' | 'option_d';
+              return (
+                <div key={letter}>
+                  <Label htmlFor={`option-${letter.toLowerCase()}`}>Option {letter}</Label>
+                  <Input
+                    id={`option-${letter.toLowerCase()}`}
+                    value={form[field]}
+                    onChange={(e) => onChange({ [field]: e.target.value })}
+                    required
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div>
+            <Label htmlFor="correct-answer">Correct Answer</Label>
+            <Select
+              value={form.correct_answer}
+              onValueChange={(value) => onChange({ correct_answer: value })}
+              required
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select correct answer" />
+              </SelectTrigger>
+              <SelectContent>
+                {OPTION_LETTERS.map((letter) => (
+                  <SelectItem key={letter} value={letter}>
+                    {letter} - {form[`option_${letter.toLowerCase()}`] || `Option ${letter}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      );
+
+    case 'true_false':
+      return (
+        <div>
+          <Label htmlFor="correct-answer">Correct Answer</Label>
+          <Select
+            value={form.correct_answer}
+            onValueChange={(value) => onChange({ correct_answer: value })}
+            required
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select correct answer" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="true">True</SelectItem>
+              <SelectItem value="false">False</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      );
+
+    case 'multi_select':
+      return (
+        <div className="space-y-2">
+          <Label>Options (tick every correct option)</Label>
+          {form.choices.map((choice, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Checkbox
+                checked={choice.correct}
+                onCheckedChange={(checked) => onChange({
+                  choices: form.choices.map((c, i) => (i === index ? { ...c, correct: checked === true } : c)),
+                })}
+              />
+              <Input
+                value={choice.text}
+                placeholder={`Option ${index + 1}`}
+                onChange={(e) => onChange({
+                  choices: form.choices.map((c, i) => (i === index ? { ...c, text: e.target.value } : c)),
+                })}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={form.choices.length <= 2}
+                onClick={() => onChange({ choices: form.choices.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ choices: [...form.choices, { text: '', correct: false }] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Option
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Partial credit: each correct pick earns a share of the marks and each wrong pick takes one away.
+          </p>
+        </div>
+      );
+
+    case 'numeric':
+      return (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="numeric-value">Correct Answer</Label>
+            <Input
+              id="numeric-value"
+              type="number"
+              step="any"
+              value={form.numeric_value}
+              onChange={(e) => onChange({ numeric_value: e.target.value })}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="numeric-tolerance">Tolerance (±)</Label>
+            <Input
+              id="numeric-tolerance"
+              type="number"
+              step="any"
+              min="0"
+              value={form.numeric_tolerance}
+              onChange={(e) => onChange({ numeric_tolerance: e.target.value })}
+            />
+          </div>
+        </div>
+      );
+
+    case 'short_text':
+      return (
+        <div className="space-y-2">
+          <Label htmlFor="accepted-answers">Accepted Answers (one per line)</Label>
+          <Textarea
+            id="accepted-answers"
+            value={form.accepted_answers}
+            onChange={(e) => onChange({ accepted_answers: e.target.value })}
+            rows={3}
+            required
+          />
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="case-sensitive"
+              checked={form.case_sensitive}
+              onCheckedChange={(checked) => onChange({ case_sensitive: checked })}
+            />
+            <Label htmlFor="case-sensitive">Case sensitive</Label>
+          </div>
+        </div>
+      );
+
+    case 'matching':
+      return (
+        <div className="space-y-2">
+          <Label>Pairs (students match each prompt to its answer)</Label>
+          {form.pairs.map((pair, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={pair.prompt}
+                placeholder={`Prompt ${index + 1}`}
+                onChange={(e) => onChange({
+                  pairs: form.pairs.map((p, i) => (i === index ? { ...p, prompt: e.target.value } : p)),
+                })}
+              />
+              <Input
+                value={pair.answer}
+                placeholder="Matching answer"
+                onChange={(e) => onChange({
+                  pairs: form.pairs.map((p, i) => (i === index ? { ...p, answer: e.target.value } : p)),
+                })}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={form.pairs.length <= 2}
+                onClick={() => onChange({ pairs: form.pairs.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ pairs: [...form.pairs, { prompt: '', answer: '' }] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Pair
+          </Button>
+        </div>
+      );
+
+    case 'essay':
+      return (
+        <div>
+          <Label htmlFor="rubric">Grading Rubric (optional)</Label>
+          <Textarea
+            id="rubric"
+            value={form.rubric}
+            onChange={(e) => onChange({ rubric: e.target.value })}
+            rows={3}
+            placeholder="Shown to graders in the Grading tab"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Essay answers are marked by hand from the Grading tab.
+          </p>
+        </div>
+      );
+  }
+};
@@ -0,0 +1,33 @@
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { Loader2 } from 'lucide-react';
+import { UserRole } from '@/lib/roles';
+
+interface RequireRoleProps {
+  roles: UserRole[];
+  children: React.ReactNode;
+}
+
+// Route guard: signed-out users go to sign in, signed-in users without one of the roles
+// go back to their dashboard
+export const RequireRole = ({ roles, children }: RequireRoleProps) => {
+  const { user, userProfile, loading } = useAuth();
+
+  if (!loading && !user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (loading || !userProfile) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!roles.includes(userProfile.role)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <>{children}</>;
+};
@@ -0,0 +1,399 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Plus, Trash2, Upload, UserPlus, Users } from 'lucide-react';
+import { ENROLLMENT_STATUS_LABELS, EnrollmentStatus, RosterParseResult, parseRoster } from '@/lib/roster';
+
+interface SectionManagerProps {
+  users: { id: string; full_name: string; email: string; role: string }[];
+}
+
+interface Section {
+  id: string;
+  name: string;
+  description: string | null;
+  section_enrollments: { count: number }[];
+}
+
+interface Enrollment {
+  student_id: string;
+  enrolled_at: string;
+  profiles: { full_name: string; email: string } | null;
+}
+
+export const SectionManager = ({ users }: SectionManagerProps) => {
+  const { user } = useAuth();
+  const [sections, setSections] = useState<Section[]>([]);
+  const [sectionForm, setSectionForm] = useState({ name: '', description: '' });
+  const [selectedSectionId, setSelectedSectionId] = useState<string | null>(null);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [studentToAdd, setStudentToAdd] = useState('');
+  const [roster, setRoster] = useState<RosterParseResult | null>(null);
+  const [rosterResults, setRosterResults] = useState<{ email: string; status: string }[]>([]);
+  const [enrolling, setEnrolling] = useState(false);
+
+  useEffect(() => {
+    fetchSections();
+  }, []);
+
+  const fetchEnrollments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('section_enrollments')
+        .select('student_id, enrolled_at, profiles(full_name, email)')
+        .eq('section_id', selectedSectionId);
+
+      if (error) throw error;
+      setEnrollments((data || []).sort((a, b) =>
+        (a.profiles?.full_name ?? '').localeCompare(b.profiles?.full_name ?? '')
+      ));
+    } catch (error) {
+      console.error('Error fetching enrollments:', error);
+      toast.error('Failed to load enrolled students');
+    }
+  }, [selectedSectionId]);
+
+  useEffect(() => {
+    setRoster(null);
+    setRosterResults([]);
+    if (selectedSectionId) {
+      fetchEnrollments();
+    }
+  }, [selectedSectionId, fetchEnrollments]);
+
+  const fetchSections = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sections')
+        .select('*, section_enrollments(count)')
+        .order('name');
+
+      if (error) throw error;
+      setSections(data || []);
+    } catch (error) {
+      console.error('Error fetching sections:', error);
+      toast.error('Failed to load sections');
+    }
+  };
+
+  const createSection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { data, error } = await supabase
+        .from('sections')
+        .insert({
+          name: sectionForm.name.trim(),
+          description: sectionForm.description.trim() || null,
+          created_by: user?.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      toast.success('Section created');
+      setSectionForm({ name: '', description: '' });
+      setSelectedSectionId(data.id);
+      fetchSections();
+    } catch (error) {
+      console.error('Error creating section:', error);
+      toast.error(error.code === '23505' ? 'A section with this name already exists' : 'Failed to create section');
+    }
+  };
+
+  const deleteSection = async (id: string) => {
+    if (!confirm('Delete this section? Its exams become visible to every student unless they are assigned to another section.')) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('sections')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success('Section deleted');
+      if (selectedSectionId === id) setSelectedSectionId(null);
+      fetchSections();
+    } catch (error) {
+      console.error('Error deleting section:', error);
+      toast.error('Failed to delete section');
+    }
+  };
+
+  const enrollStudent = async () => {
+    try {
+      const { error } = await supabase
+        .from('section_enrollments')
+        .insert({ section_id: selectedSectionId, student_id: studentToAdd });
+
+      if (error) throw error;
+
+      setStudentToAdd('');
+      fetchEnrollments();
+      fetchSections();
+    } catch (error) {
+      console.error('Error enrolling student:', error);
+      toast.error('Failed to enroll student');
+    }
+  };
+
+  const unenrollStudent = async (studentId: string) => {
+    try {
+      const { error } = await supabase
+        .from('section_enrollments')
+        .delete()
+        .eq('section_id', selectedSectionId)
+        .eq('student_id', studentId);
+
+      if (error) throw error;
+
+      fetchEnrollments();
+      fetchSections();
+    } catch (error) {
+      console.error('Error removing student:', error);
+      toast.error('Failed to remove student');
+    }
+  };
+
+  const handleRosterFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setRosterResults([]);
+    setRoster(parseRoster(await file.text()));
+  };
+
+  const enrollRoster = async () => {
+    setEnrolling(true);
+    try {
+      const { data, error } = await supabase.rpc('enroll_students_by_email', {
+        _section_id: selectedSectionId,
+        _emails: roster.emails
+      });
+
+      if (error) throw error;
+
+      const enrolled = data.filter(result => result.status === 'enrolled').length;
+      toast.success(`Enrolled ${enrolled} of ${data.length} students`);
+      setRoster(null);
+      setRosterResults(data.filter(result => result.status !== 'enrolled' && result.status !== 'already_enrolled'));
+      fetchEnrollments();
+      fetchSections();
+    } catch (error) {
+      console.error('Error enrolling roster:', error);
+      toast.error('Failed to enroll roster');
+    } finally {
+      setEnrolling(false);
+    }
+  };
+
+  const selectedSection = sections.find(section => section.id === selectedSectionId);
+  const enrolledIds = new Set(enrollments.map(enrollment => enrollment.student_id));
+  const availableStudents = users.filter(profile => profile.role === 'student' && !enrolledIds.has(profile.id));
+
+  return (
+    <div className="space-y-6">
+      {/* Create Section Form */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Create New Section</CardTitle>
+          <CardDescription>
+            Exams assigned to sections are only shown to the students enrolled in them. Exams with no
+            sections stay open to every student.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={createSection} className="space-y-4">
+            <div>
+              <Label htmlFor="section-name">Section Name</Label>
+              <Input
+                id="section-name"
+                placeholder="e.g. BSCS 2-A, 1st Sem 2026"
+                value={sectionForm.name}
+                onChange={(e) => setSectionForm({ ...sectionForm, name: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="section-description">Description</Label>
+              <Textarea
+                id="section-description"
+                value={sectionForm.description}
+                onChange={(e) => setSectionForm({ ...sectionForm, description: e.target.value })}
+              />
+            </div>
+            <Button type="submit">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Section
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Sections List */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Sections</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sections.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No sections yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {sections.map((section) => (
+                  <div
+                    key={section.id}
+                    className={`flex items-center justify-between p-3 border rounded-lg cursor-pointer transition-colors ${
+                      section.id === selectedSectionId ? 'border-primary bg-muted/50' : 'hover:bg-muted/50'
+                    }`}
+                    onClick={() => setSelectedSectionId(section.id)}
+                  >
+                    <div>
+                      <h3 className="font-medium text-foreground">{section.name}</h3>
+                      {section.description && (
+                        <p className="text-xs text-muted-foreground">{section.description}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary">
+                        <Users className="h-3 w-3 mr-1" />
+                        {section.section_enrollments[0]?.count ?? 0}
+                      </Badge>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteSection(section.id);
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Enrollment */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{selectedSection ? selectedSection.name : 'Enrollment'}</CardTitle>
+            <CardDescription>
+              {selectedSection ? `${enrollments.length} students enrolled` : 'Select a section to manage its students'}
+            </CardDescription>
+          </CardHeader>
+          {selectedSection && (
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="section-add-student">Add student</Label>
+                  <div className="flex gap-2">
+                    <Select value={studentToAdd} onValueChange={setStudentToAdd}>
+                      <SelectTrigger id="section-add-student">
+                        <SelectValue placeholder="Select student" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableStudents.map((profile) => (
+                          <SelectItem key={profile.id} value={profile.id}>
+                            {profile.full_name} ({profile.email})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button onClick={enrollStudent} disabled={!studentToAdd}>
+                      <UserPlus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="section-roster">Enroll from CSV roster</Label>
+                  <Input id="section-roster" type="file" accept=".csv,.txt" onChange={handleRosterFile} />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Students are matched by the "Email" column, or the first email address on each line.
+                  </p>
+                </div>
+              </div>
+
+              {roster && (
+                <div className="flex items-center justify-between p-3 border rounded-lg">
+                  <div className="text-sm">
+                    <p>Found {roster.emails.length} email addresses.</p>
+                    {roster.skippedLines.length > 0 && (
+                      <p className="text-muted-foreground">
+                        Skipped lines without an email: {roster.skippedLines.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                  <Button onClick={enrollRoster} disabled={enrolling || roster.emails.length === 0}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    {enrolling ? 'Enrolling...' : `Enroll ${roster.emails.length}`}
+                  </Button>
+                </div>
+              )}
+
+              {rosterResults.length > 0 && (
+                <div className="p-3 border border-destructive/50 rounded-lg text-sm">
+                  <p className="font-medium mb-2">These roster entries were not enrolled:</p>
+                  <ul className="space-y-1">
+                    {rosterResults.map((result) => (
+                      <li key={result.email} className="flex justify-between">
+                        <span>{result.email}</span>
+                        <span className="text-muted-foreground">
+                          {ENROLLMENT_STATUS_LABELS[result.status as EnrollmentStatus] ?? result.status}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {enrollments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No students enrolled yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Enrolled</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {enrollments.map((enrollment) => (
+                      <TableRow key={enrollment.student_id}>
+                        <TableCell className="font-medium">{enrollment.profiles?.full_name}</TableCell>
+                        <TableCell>{enrollment.profiles?.email}</TableCell>
+                        <TableCell className="text-xs">{new Date(enrollment.enrolled_at).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => unenrollStudent(enrollment.student_id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
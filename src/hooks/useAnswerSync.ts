@@ -0,0 +1,152 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { AnswerValue, answerToColumns } from '@/lib/questionTypes';
+import { QueuedAnswer, getPendingAnswers, markAnswerSynced, putLocalAnswer } from '@/lib/answerQueue';
+
+// 'rejected' means the server refused the answers because the attempt is no longer open
+export type SyncStatus = 'saved' | 'syncing' | 'offline' | 'rejected';
+
+// Typed answers are sent once the student pauses rather than on every keystroke
+export const TYPED_ANSWER_DELAY = 800;
+
+// Failed syncs are retried with exponential backoff between these bounds
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+const upsertAnswer = (answer: Pick<QueuedAnswer, 'attempt_id' | 'question_id' | 'question_type' | 'value'>) =>
+  supabase
+    .from('student_answers')
+    .upsert({
+      attempt_id: answer.attempt_id,
+      question_id: answer.question_id,
+      ...answerToColumns(answer.question_type, answer.value)
+    }, { onConflict: 'attempt_id,question_id' });
+
+// Every answer goes to IndexedDB first and is then pushed to the server by a single
+// sync queue, so answers given while the connection is down are sent once it returns.
+export const useAnswerSync = (attemptId: string | undefined) => {
+  const [status, setStatus] = useState<SyncStatus>('saved');
+  const attemptRef = useRef(attemptId);
+  const syncChain = useRef<Promise<SyncStatus>>(Promise.resolve('saved'));
+  const debounceTimer = useRef<ReturnType<typeof setTimeout>>();
+  const retryTimer = useRef<ReturnType<typeof setTimeout>>();
+  const retryDelay = useRef(INITIAL_RETRY_MS);
+
+  attemptRef.current = attemptId;
+
+  // Sends every unsynced answer of the attempt and resolves with where that left them
+  const syncPass = useCallback(async (): Promise<SyncStatus> => {
+    const currentAttemptId = attemptRef.current;
+    if (!currentAttemptId) return 'saved';
+
+    try {
+      let pending = await getPendingAnswers(currentAttemptId);
+      // Answers changed while a batch was in flight are picked up by the next loop
+      while (pending.length > 0) {
+        setStatus('syncing');
+        for (const answer of pending) {
+          const { error } = await upsertAnswer(answer);
+          // The attempt has been submitted or timed out. Retrying cannot help, so the answer
+          // stays unsynced on this device and the student is told it was not saved.
+          if (error?.code === '42501') {
+            toast.error('Your latest answers were not saved because this attempt is no longer open');
+            setStatus('rejected');
+            return 'rejected';
+          }
+          if (error) throw error;
+          await markAnswerSynced(answer);
+        }
+        pending = await getPendingAnswers(currentAttemptId);
+      }
+
+      clearTimeout(retryTimer.current);
+      retryTimer.current = undefined;
+      retryDelay.current = INITIAL_RETRY_MS;
+      setStatus('saved');
+      return 'saved';
+    } catch (error) {
+      console.error('Error syncing answers:', error);
+      setStatus('offline');
+      return 'offline';
+    }
+  }, []);
+
+  // Passes run one after another so the same answer is never sent twice at once; a pass
+  // that could not reach the server is retried with backoff
+  const sync = useCallback((): Promise<SyncStatus> => {
+    syncChain.current = syncChain.current.then(syncPass).then(result => {
+      if (result === 'offline' && !retryTimer.current) {
+        retryTimer.current = setTimeout(() => {
+          retryTimer.current = undefined;
+          sync();
+        }, retryDelay.current);
+        retryDelay.current = Math.min(retryDelay.current * 2, MAX_RETRY_MS);
+      }
+      return result;
+    });
+    return syncChain.current;
+  }, [syncPass]);
+
+  // Anything left over from an earlier visit is sent as soon as the attempt is known
+  useEffect(() => {
+    if (attemptId) sync();
+  }, [attemptId, sync]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      clearTimeout(retryTimer.current);
+      retryTimer.current = undefined;
+      retryDelay.current = INITIAL_RETRY_MS;
+      sync();
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      clearTimeout(debounceTimer.current);
+      clearTimeout(retryTimer.current);
+    };
+  }, [sync]);
+
+  const queueAnswer = useCallback(async (questionId: string, questionType: string, value: AnswerValue, delay = 0) => {
+    const currentAttemptId = attemptRef.current;
+    if (!currentAttemptId) return;
+
+    const answer = {
+      attempt_id: currentAttemptId,
+      question_id: questionId,
+      question_type: questionType,
+      value,
+    };
+
+    try {
+      await putLocalAnswer({ ...answer, updated_at: Date.now(), synced: false });
+    } catch (error) {
+      // Without IndexedDB (e.g. some private browsing modes) fall back to saving directly
+      console.error('Error storing answer locally:', error);
+      const { error: saveError } = await upsertAnswer(answer);
+      if (saveError) {
+        console.error('Error saving answer:', saveError);
+        toast.error('Failed to save answer');
+      }
+      return;
+    }
+
+    setStatus('syncing');
+    clearTimeout(debounceTimer.current);
+    if (delay > 0) {
+      debounceTimer.current = setTimeout(sync, delay);
+    } else {
+      sync();
+    }
+  }, [sync]);
+
+  // Sends anything still waiting right away and resolves with the resulting status
+  const flushNow = useCallback(() => {
+    clearTimeout(debounceTimer.current);
+    return sync();
+  }, [sync]);
+
+  return { status, queueAnswer, flushNow };
+};
@@ -14,11 +14,153 @@ export type Database = {
   }
   public: {
     Tables: {
+      access_code_failures: {
+        Row: {
+          attempted_at: string
+          exam_id: string
+          id: string
+          student_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          exam_id: string
+          id?: string
+          student_id: string
+        }
+        Update: {
+          attempted_at?: string
+          exam_id?: string
+          id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "access_code_failures_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "access_code_failures_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attempt_events: {
+        Row: {
+          attempt_id: string
+          details: Json | null
+          event_type: string
+          id: string
+          occurred_at: string
+        }
+        Insert: {
+          attempt_id: string
+          details?: Json | null
+          event_type: string
+          id?: string
+          occurred_at?: string
+        }
+        Update: {
+          attempt_id?: string
+          details?: Json | null
+          event_type?: string
+          id?: string
+          occurred_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attempt_events_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "exam_attempts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attempt_questions: {
+        Row: {
+          attempt_id: string
+          id: string
+          marks: number
+          option_order: string[] | null
+          order_number: number
+          question_id: string
+        }
+        Insert: {
+          attempt_id: string
+          id?: string
+          marks: number
+          option_order?: string[] | null
+          order_number: number
+          question_id: string
+        }
+        Update: {
+          attempt_id?: string
+          id?: string
+          marks?: number
+          option_order?: string[] | null
+          order_number?: number
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attempt_questions_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "exam_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attempt_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_access_codes: {
+        Row: {
+          code: string
+          created_at: string
+          exam_id: string
+          expires_at: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          exam_id: string
+          expires_at?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          exam_id?: string
+          expires_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_access_codes_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: true
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exam_attempts: {
         Row: {
+          certificate_code: string | null
           completed_at: string | null
+          deadline_at: string | null
           exam_id: string | null
           id: string
+          passed: boolean | null
           percentage: number | null
           score: number | null
           started_at: string | null
@@ -27,20 +169,26 @@ export type Database = {
           total_marks: number
         }
         Insert: {
+          certificate_code?: string | null
           completed_at?: string | null
+          deadline_at?: string | null
           exam_id?: string | null
           id?: string
+          passed?: boolean | null
           percentage?: number | null
           score?: number | null
           started_at?: string | null
           status?: string
           student_id?: string | null
-          total_marks: number
+          total_marks?: number
         }
         Update: {
+          certificate_code?: string | null
           completed_at?: string | null
+          deadline_at?: string | null
           exam_id?: string | null
           id?: string
+          passed?: boolean | null
           percentage?: number | null
           score?: number | null
           started_at?: string | null
@@ -65,40 +213,189 @@ export type Database = {
           },
         ]
       }
+      exam_blueprint_rules: {
+        Row: {
+          created_at: string | null
+          difficulty: string | null
+          exam_id: string
+          id: string
+          marks: number | null
+          order_number: number
+          question_count: number
+          tag: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          difficulty?: string | null
+          exam_id: string
+          id?: string
+          marks?: number | null
+          order_number?: number
+          question_count: number
+          tag?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          difficulty?: string | null
+          exam_id?: string
+          id?: string
+          marks?: number | null
+          order_number?: number
+          question_count?: number
+          tag?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_blueprint_rules_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_questions: {
+        Row: {
+          created_at: string | null
+          exam_id: string
+          id: string
+          marks: number
+          order_number: number
+          question_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          exam_id: string
+          id?: string
+          marks?: number
+          order_number?: number
+          question_id: string
+        }
+        Update: {
+          created_at?: string | null
+          exam_id?: string
+          id?: string
+          marks?: number
+          order_number?: number
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_questions_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_sections: {
+        Row: {
+          exam_id: string
+          section_id: string
+        }
+        Insert: {
+          exam_id: string
+          section_id: string
+        }
+        Update: {
+          exam_id?: string
+          section_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_sections_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_sections_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exams: {
         Row: {
+          attempt_cooldown_minutes: number
+          closes_at: string | null
           created_at: string | null
           created_by: string | null
           description: string | null
           duration_minutes: number
+          grading_policy: string
           id: string
           is_active: boolean | null
-          passing_marks: number
+          max_attempts: number | null
+          max_violations: number | null
+          opens_at: string | null
+          pass_percentage: number
+          require_fullscreen: boolean
+          requires_access_code: boolean
+          review_policy: string
+          shuffle_options: boolean
+          shuffle_questions: boolean
           subject_id: string | null
+          timezone: string
           title: string
           total_marks: number
         }
         Insert: {
+          attempt_cooldown_minutes?: number
+          closes_at?: string | null
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           duration_minutes?: number
+          grading_policy?: string
           id?: string
           is_active?: boolean | null
-          passing_marks?: number
+          max_attempts?: number | null
+          max_violations?: number | null
+          opens_at?: string | null
+          pass_percentage?: number
+          require_fullscreen?: boolean
+          requires_access_code?: boolean
+          review_policy?: string
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           subject_id?: string | null
+          timezone?: string
           title: string
           total_marks?: number
         }
         Update: {
+          attempt_cooldown_minutes?: number
+          closes_at?: string | null
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           duration_minutes?: number
+          grading_policy?: string
           id?: string
           is_active?: boolean | null
-          passing_marks?: number
+          max_attempts?: number | null
+          max_violations?: number | null
+          opens_at?: string | null
+          pass_percentage?: number
+          require_fullscreen?: boolean
+          requires_access_code?: boolean
+          review_policy?: string
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           subject_id?: string | null
+          timezone?: string
           title?: string
           total_marks?: number
         }
@@ -148,80 +445,246 @@ export type Database = {
       }
       questions: {
         Row: {
-          correct_answer: string
+          answer_key: Json | null
+          correct_answer: string | null
           created_at: string | null
-          exam_id: string | null
+          created_by: string | null
+          difficulty: string | null
+          explanation: string | null
           id: string
           marks: number
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
-          order_number: number | null
+          option_a: string | null
+          option_b: string | null
+          option_c: string | null
+          option_d: string | null
+          options: Json | null
           question_text: string
+          question_type: string
+          subject_id: string | null
+          tags: string[]
         }
         Insert: {
-          correct_answer: string
+          answer_key?: Json | null
+          correct_answer?: string | null
           created_at?: string | null
-          exam_id?: string | null
+          created_by?: string | null
+          difficulty?: string | null
+          explanation?: string | null
           id?: string
           marks?: number
-          option_a: string
-          option_b: string
-          option_c: string
-          option_d: string
-          order_number?: number | null
+          option_a?: string | null
+          option_b?: string | null
+          option_c?: string | null
+          option_d?: string | null
+          options?: Json | null
           question_text: string
+          question_type?: string
+          subject_id?: string | null
+          tags?: string[]
         }
         Update: {
-          correct_answer?: string
+          answer_key?: Json | null
+          correct_answer?: string | null
           created_at?: string | null
-          exam_id?: string | null
+          created_by?: string | null
+          difficulty?: string | null
+          explanation?: string | null
           id?: string
           marks?: number
-          option_a?: string
-          option_b?: string
-          option_c?: string
-          option_d?: string
-          order_number?: number | null
+          option_a?: string | null
+          option_b?: string | null
+          option_c?: string | null
+          option_d?: string | null
+          options?: Json | null
           question_text?: string
+          question_type?: string
+          subject_id?: string | null
+          tags?: string[]
         }
         Relationships: [
           {
-            foreignKeyName: "questions_exam_id_fkey"
-            columns: ["exam_id"]
+            foreignKeyName: "questions_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "exams"
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      section_enrollments: {
+        Row: {
+          enrolled_at: string
+          section_id: string
+          student_id: string
+        }
+        Insert: {
+          enrolled_at?: string
+          section_id: string
+          student_id: string
+        }
+        Update: {
+          enrolled_at?: string
+          section_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "section_enrollments_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "section_enrollments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sections: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sections_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_answer_history: {
+        Row: {
+          answer_text: string | null
+          answered_at: string
+          attempt_id: string
+          id: string
+          question_id: string
+          response: Json | null
+          selected_answer: string | null
+        }
+        Insert: {
+          answer_text?: string | null
+          answered_at?: string
+          attempt_id: string
+          id?: string
+          question_id: string
+          response?: Json | null
+          selected_answer?: string | null
+        }
+        Update: {
+          answer_text?: string | null
+          answered_at?: string
+          attempt_id?: string
+          id?: string
+          question_id?: string
+          response?: Json | null
+          selected_answer?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_answer_history_attempt_id_fkey"
+            columns: ["attempt_id"]
+            isOneToOne: false
+            referencedRelation: "exam_attempts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_answer_history_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
             referencedColumns: ["id"]
           },
         ]
       }
       student_answers: {
         Row: {
+          answer_text: string | null
+          answered_at: string
           attempt_id: string | null
           created_at: string | null
+          feedback: string | null
+          graded_at: string | null
+          graded_by: string | null
           id: string
           is_correct: boolean | null
+          marks_awarded: number | null
           question_id: string | null
+          response: Json | null
           selected_answer: string | null
+          updated_at: string
         }
         Insert: {
+          answer_text?: string | null
+          answered_at?: string
           attempt_id?: string | null
           created_at?: string | null
+          feedback?: string | null
+          graded_at?: string | null
+          graded_by?: string | null
           id?: string
           is_correct?: boolean | null
+          marks_awarded?: number | null
           question_id?: string | null
+          response?: Json | null
           selected_answer?: string | null
+          updated_at?: string
         }
         Update: {
+          answer_text?: string | null
+          answered_at?: string
           attempt_id?: string | null
           created_at?: string | null
+          feedback?: string | null
+          graded_at?: string | null
+          graded_by?: string | null
           id?: string
           is_correct?: boolean | null
+          marks_awarded?: number | null
           question_id?: string | null
+          response?: Json | null
           selected_answer?: string | null
+          updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "student_answers_graded_by_fkey"
+            columns: ["graded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "student_answers_attempt_id_fkey"
             columns: ["attempt_id"]
@@ -275,13 +738,279 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      daily_attempt_stats: {
+        Row: {
+          average_percentage: number | null
+          completed: number | null
+          day: string | null
+          started: number | null
+        }
+        Relationships: []
+      }
+      exam_completion_rates: {
+        Row: {
+          abandoned: number | null
+          exam_id: string | null
+          exam_title: string | null
+          in_progress: number | null
+          started: number | null
+          submitted: number | null
+          timed_out: number | null
+        }
+        Relationships: []
+      }
+      exam_score_distribution: {
+        Row: {
+          attempts: number | null
+          bucket_start: number | null
+          exam_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_attempts_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subject_pass_rates: {
+        Row: {
+          graded_attempts: number | null
+          pass_rate: number | null
+          passed_attempts: number | null
+          subject_id: string | null
+          subject_name: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      can_manage_exam: {
+        Args: { _exam_id: string }
+        Returns: boolean
+      }
+      enroll_students_by_email: {
+        Args: { _emails: string[]; _section_id: string }
+        Returns: {
+          email: string
+          status: string
+        }[]
+      }
+      exam_nominal_total_marks: {
+        Args: { _exam_id: string }
+        Returns: number
+      }
+      finalize_expired_attempts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      generate_access_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      generate_certificate_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_attempt_questions: {
+        Args: { _attempt_id: string }
+        Returns: {
+          id: string
+          marks: number
+          option_a: string
+          option_b: string
+          option_c: string
+          option_d: string
+          options: Json
+          order_number: number
+          question_text: string
+          question_type: string
+        }[]
+      }
+      get_attempt_review: {
+        Args: { _attempt_id: string }
+        Returns: {
+          answer_key: Json
+          answer_text: string
+          correct_answer: string
+          explanation: string
+          feedback: string
+          id: string
+          is_correct: boolean
+          marks: number
+          marks_awarded: number
+          option_a: string
+          option_b: string
+          option_c: string
+          option_d: string
+          options: Json
+          order_number: number
+          question_text: string
+          question_type: string
+          response: Json
+          selected_answer: string
+        }[]
+      }
+      get_attempt_time_remaining: {
+        Args: { _attempt_id: string }
+        Returns: number
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_item_responses: {
+        Args: { _exam_id: string }
+        Returns: {
+          attempt_id: string
+          correct_answer: string
+          is_correct: boolean
+          marks: number
+          marks_awarded: number
+          question_id: string
+          question_text: string
+          question_type: string
+          selected_answer: string
+        }[]
+      }
+      get_my_topic_performance: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          marks_awarded: number
+          marks_possible: number
+          questions: number
+          subject_id: string
+          subject_name: string
+          topic: string
+        }[]
+      }
+      grade_attempt: {
+        Args: { _attempt_id: string }
+        Returns: undefined
+      }
+      grade_essay_answer: {
+        Args: { _answer_id: string; _feedback: string; _marks: number }
+        Returns: undefined
+      }
+      has_attempted_exam: {
+        Args: { _exam_id: string }
+        Returns: boolean
+      }
+      is_exam_assigned: {
+        Args: { _exam_id: string }
+        Returns: boolean
+      }
+      is_exam_open: {
+        Args: { _exam_id: string }
+        Returns: boolean
+      }
+      is_exam_owner: {
+        Args: { _exam_id: string }
+        Returns: boolean
+      }
+      is_review_released: {
+        Args: { _exam_id: string }
+        Returns: boolean
+      }
+      is_subject_owner: {
+        Args: { _subject_id: string }
+        Returns: boolean
+      }
+      log_attempt_event: {
+        Args: { _attempt_id: string; _details?: Json; _event_type: string }
+        Returns: {
+          attempt_status: string
+          event_count: number
+        }[]
+      }
+      refresh_attempt_score: {
+        Args: { _attempt_id: string }
+        Returns: undefined
+      }
+      rotate_exam_access_code: {
+        Args: { _exam_id: string; _valid_minutes?: number }
+        Returns: {
+          code: string
+          created_at: string
+          exam_id: string
+          expires_at: string | null
+        }
+      }
+      score_answer: {
+        Args: {
+          _question: Database["public"]["Tables"]["questions"]["Row"]
+          _response: Json
+          _selected_answer: string
+        }
+        Returns: number
+      }
+      shuffle_answer: {
+        Args: { _answer: string; _option_order: string[] }
+        Returns: string
+      }
+      shuffled_option: {
+        Args: {
+          _option_order: string[]
+          _position: number
+          _question: Database["public"]["Tables"]["questions"]["Row"]
+        }
+        Returns: string
+      }
+      shuffled_option_letters: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      start_attempt: {
+        Args: { _access_code?: string; _exam_id: string }
+        Returns: {
+          certificate_code: string | null
+          completed_at: string | null
+          deadline_at: string | null
+          exam_id: string | null
+          id: string
+          passed: boolean | null
+          percentage: number | null
+          score: number | null
+          started_at: string | null
+          status: string
+          student_id: string | null
+          total_marks: number
+        }
+      }
+      submit_attempt: {
+        Args: { _attempt_id: string }
+        Returns: {
+          completed_at: string | null
+          deadline_at: string | null
+          exam_id: string | null
+          id: string
+          percentage: number | null
+          score: number | null
+          started_at: string | null
+          status: string
+          student_id: string | null
+          total_marks: number
+        }
+      }
+      unshuffle_answer: {
+        Args: { _option_order: string[]; _selected_answer: string }
+        Returns: string
+      }
+      verify_certificate: {
+        Args: { _code: string }
+        Returns: {
+          certificate_code: string
+          completed_at: string
+          exam_title: string
+          percentage: number
+          score: number
+          student_name: string
+          subject_name: string
+          total_marks: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
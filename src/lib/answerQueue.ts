@@ -0,0 +1,83 @@
+import { AnswerValue } from '@/lib/questionTypes';
+
+// Answers are written to IndexedDB before they are sent, so nothing typed during a
+// dropped connection is lost. A record stays unsynced until the server has a copy of
+// that exact edit.
+export interface QueuedAnswer {
+  attempt_id: string;
+  question_id: string;
+  question_type: string;
+  value: AnswerValue;
+  // Client time of the edit, used to tell a newer local edit from the one being synced
+  updated_at: number;
+  synced: boolean;
+}
+
+const DB_NAME = 'online-examination';
+const DB_VERSION = 1;
+const STORE = 'answers';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: ['attempt_id', 'question_id'] });
+        store.createIndex('attempt_id', 'attempt_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putLocalAnswer = (answer: QueuedAnswer) => run('readwrite', store => store.put(answer));
+
+export const getLocalAnswers = (attemptId: string) =>
+  run<QueuedAnswer[]>('readonly', store => store.index('attempt_id').getAll(attemptId));
+
+export const getPendingAnswers = async (attemptId: string) =>
+  (await getLocalAnswers(attemptId)).filter(answer => !answer.synced);
+
+// Marks an edit as on the server, unless the student changed the answer again meanwhile
+export const markAnswerSynced = async (answer: QueuedAnswer) => {
+  const current = await run<QueuedAnswer | undefined>('readonly', store => store.get([answer.attempt_id, answer.question_id]));
+  if (current && current.updated_at === answer.updated_at) {
+    await putLocalAnswer({ ...current, synced: true });
+  }
+};
+
+export const clearLocalAnswers = async (attemptId: string) => {
+  const answers = await getLocalAnswers(attemptId);
+  await Promise.all(answers.map(answer => run('readwrite', store => store.delete([answer.attempt_id, answer.question_id]))));
+};
+
+// Server answers are the baseline; an unsynced local edit is always newer than anything
+// the server holds for that question, so it wins. Synced local copies defer to the server.
+export const mergeAnswers = (
+  serverAnswers: Record<string, AnswerValue>,
+  localAnswers: QueuedAnswer[]
+): Record<string, AnswerValue> => {
+  const merged = { ...serverAnswers };
+  localAnswers
+    .filter(answer => !answer.synced)
+    .forEach(answer => {
+      merged[answer.question_id] = answer.value;
+    });
+  return merged;
+};
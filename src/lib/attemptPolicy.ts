@@ -0,0 +1,98 @@
+// Retake rules. Keep GradingPolicy in sync with exams_grading_policy_check in the migrations.
+export type GradingPolicy = 'highest' | 'latest' | 'average' | 'first';
+
+export const GRADING_POLICY_LABELS: Record<GradingPolicy, string> = {
+  highest: 'Highest score',
+  latest: 'Latest score',
+  average: 'Average score',
+  first: 'First score',
+};
+
+export interface GradedAttempt {
+  score: number | null;
+  total_marks: number;
+  percentage: number | null;
+  passed: boolean | null;
+  completed_at: string | null;
+}
+
+export interface KeptScore {
+  score: number;
+  total_marks: number;
+  percentage: number;
+  // Decided at grading for a single kept attempt; left unset for averages
+  passed?: boolean;
+  attempts: number;
+}
+
+const byCompletion = (a: GradedAttempt, b: GradedAttempt) =>
+  new Date(a.completed_at).getTime() - new Date(b.completed_at).getTime();
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// The score that counts for an exam under its policy, from the student's completed attempts
+export const keptScore = (attempts: GradedAttempt[], policy: GradingPolicy): KeptScore | null => {
+  if (attempts.length === 0) return null;
+
+  const sorted = [...attempts].sort(byCompletion);
+  const pick = (attempt: GradedAttempt): KeptScore => ({
+    score: attempt.score ?? 0,
+    total_marks: attempt.total_marks,
+    percentage: attempt.percentage ?? 0,
+    passed: Boolean(attempt.passed),
+    attempts: attempts.length,
+  });
+
+  switch (policy) {
+    case 'first':
+      return pick(sorted[0]);
+    case 'latest':
+      return pick(sorted[sorted.length - 1]);
+    case 'average': {
+      const mean = (values: number[]) => round(values.reduce((sum, value) => sum + value, 0) / values.length);
+      return {
+        score: mean(sorted.map(attempt => attempt.score ?? 0)),
+        total_marks: mean(sorted.map(attempt => attempt.total_marks)),
+        percentage: mean(sorted.map(attempt => attempt.percentage ?? 0)),
+        attempts: attempts.length,
+      };
+    }
+    case 'highest':
+    default:
+      // Compared by percentage since drawn question sets can differ in total marks
+      return pick(sorted.reduce((best, attempt) => ((attempt.percentage ?? 0) > (best.percentage ?? 0) ? attempt : best)));
+  }
+};
+
+export interface RetakeRules {
+  max_attempts: number | null;
+  attempt_cooldown_minutes: number;
+}
+
+export interface AttemptHistoryEntry {
+  status: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+// Mirrors enforce_attempt_policy() so the dashboard can explain why an exam can't be started
+export const getRetakeStatus = (exam: RetakeRules, attempts: AttemptHistoryEntry[], now = Date.now()) => {
+  const attemptsUsed = attempts.length;
+  const attemptsLeft = exam.max_attempts === null ? null : Math.max(0, exam.max_attempts - attemptsUsed);
+
+  const lastFinished = attempts
+    .map(attempt => attempt.completed_at)
+    .filter(Boolean)
+    .map(completedAt => new Date(completedAt).getTime())
+    .sort((a, b) => b - a)[0];
+  const nextAttemptAt = lastFinished && exam.attempt_cooldown_minutes > 0
+    ? lastFinished + exam.attempt_cooldown_minutes * 60 * 1000
+    : null;
+
+  return {
+    inProgress: attempts.some(attempt => attempt.status === 'in_progress'),
+    attemptsUsed,
+    attemptsLeft,
+    nextAttemptAt: nextAttemptAt && nextAttemptAt > now ? nextAttemptAt : null,
+  };
+};
@@ -0,0 +1,121 @@
+import type { Json } from '@/integrations/supabase/types';
+import { MatchingOptions, QuestionType } from '@/lib/questionTypes';
+
+// Keep in sync with exams_review_policy_check and is_review_released() in the migrations
+export type ReviewPolicy = 'immediately' | 'after_close' | 'never';
+
+export const REVIEW_POLICY_LABELS: Record<ReviewPolicy, string> = {
+  immediately: 'Immediately after submitting',
+  after_close: 'After the exam closes',
+  never: 'Never',
+};
+
+// exams_review_close_date_check: 'after_close' is only allowed once the exam has a close date
+export const reviewPolicyAllowed = (policy: string, closesAt: string | null) =>
+  policy !== 'after_close' || Boolean(closesAt);
+
+export interface ReviewRelease {
+  review_policy: string;
+  closes_at: string | null;
+}
+
+export const isReviewReleased = (exam: ReviewRelease, now = Date.now()) => {
+  if (exam.review_policy === 'immediately') return true;
+  if (exam.review_policy === 'after_close') {
+    return Boolean(exam.closes_at) && new Date(exam.closes_at).getTime() <= now;
+  }
+  return false;
+};
+
+// A row of get_attempt_review
+export interface ReviewedQuestion {
+  id: string;
+  question_type: string;
+  question_text: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  options: Json | null;
+  correct_answer: string | null;
+  answer_key: Json | null;
+  explanation: string | null;
+  marks: number;
+  order_number: number;
+  selected_answer: string | null;
+  response: Json | null;
+  answer_text: string | null;
+  is_correct: boolean | null;
+  marks_awarded: number | null;
+  feedback: string | null;
+}
+
+const optionText = (question: ReviewedQuestion, letter: string) => {
+  const text = question[`option_${letter.toLowerCase()}` as 'option_a'];
+  return text ? `${letter}. ${text}` : letter;
+};
+
+const trueFalse = (value: string) => (value === 'true' ? 'True' : value === 'false' ? 'False' : value);
+
+const matchingLines = (question: ReviewedQuestion, matches: (number | null)[]) => {
+  const { prompts = [], choices = [] } = (question.options ?? {}) as unknown as MatchingOptions;
+  return prompts.map((prompt, index) => `${prompt} → ${choices[matches[index] ?? -1] ?? '—'}`);
+};
+
+// The student's answer as readable lines, or an empty list when it was left blank
+export const formatStudentAnswer = (question: ReviewedQuestion): string[] => {
+  switch (question.question_type as QuestionType) {
+    case 'mcq':
+      return question.selected_answer ? [optionText(question, question.selected_answer)] : [];
+    case 'true_false':
+      return question.selected_answer ? [trueFalse(question.selected_answer)] : [];
+    case 'multi_select': {
+      const options = (question.options ?? []) as string[];
+      return ((question.response ?? []) as number[]).map(index => options[index]);
+    }
+    case 'numeric':
+    case 'short_text':
+      return question.response === null || question.response === '' ? [] : [String(question.response)];
+    case 'matching':
+      return question.response ? matchingLines(question, question.response as (number | null)[]) : [];
+    case 'essay':
+      return question.answer_text?.trim() ? [question.answer_text] : [];
+    default:
+      return [];
+  }
+};
+
+// What a fully correct answer looks like; essays have none
+export const formatCorrectAnswer = (question: ReviewedQuestion): string[] => {
+  const key = (question.answer_key ?? {}) as Record<string, Json>;
+
+  switch (question.question_type as QuestionType) {
+    case 'mcq':
+      return question.correct_answer ? [optionText(question, question.correct_answer)] : [];
+    case 'true_false':
+      return question.correct_answer ? [trueFalse(question.correct_answer)] : [];
+    case 'multi_select': {
+      const options = (question.options ?? []) as string[];
+      return ((key.correct ?? []) as number[]).map(index => options[index]);
+    }
+    case 'numeric':
+      return [Number(key.tolerance) > 0 ? `${key.value} (± ${key.tolerance})` : String(key.value)];
+    case 'short_text':
+      return [((key.accepted ?? []) as string[]).join(' / ')];
+    case 'matching':
+      return matchingLines(question, (key.matches ?? []) as number[]);
+    default:
+      return [];
+  }
+};
+
+export type ReviewOutcome = 'correct' | 'partial' | 'incorrect' | 'unanswered' | 'pending';
+
+export const reviewOutcome = (question: ReviewedQuestion): ReviewOutcome => {
+  if (question.marks_awarded === null) {
+    return formatStudentAnswer(question).length === 0 ? 'unanswered' : 'pending';
+  }
+  if (question.is_correct) return 'correct';
+  if (formatStudentAnswer(question).length === 0) return 'unanswered';
+  return question.marks_awarded > 0 ? 'partial' : 'incorrect';
+};
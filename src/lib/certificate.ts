@@ -0,0 +1,82 @@
+import { jsPDF } from 'jspdf';
+import { slugify } from '@/lib/examPackage';
+
+// A row of verify_certificate
+export interface CertificateDetails {
+  certificate_code: string;
+  student_name: string;
+  exam_title: string;
+  subject_name: string | null;
+  score: number;
+  total_marks: number;
+  percentage: number;
+  completed_at: string;
+}
+
+export const verificationUrl = (code: string) => `${window.location.origin}/verify/${code}`;
+
+// A4 landscape certificate; everything on it can be confirmed at the verification URL
+export const buildCertificate = (certificate: CertificateDetails) => {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const center = width / 2;
+
+  doc.setDrawColor(30, 64, 175);
+  doc.setLineWidth(1.5);
+  doc.rect(10, 10, width - 20, height - 20);
+  doc.setLineWidth(0.4);
+  doc.rect(14, 14, width - 28, height - 28);
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(32);
+  doc.setTextColor(30, 64, 175);
+  doc.text('Certificate of Completion', center, 48, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.setTextColor(80, 80, 80);
+  doc.text('This certifies that', center, 70, { align: 'center' });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(28);
+  doc.setTextColor(20, 20, 20);
+  doc.text(certificate.student_name, center, 88, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.setTextColor(80, 80, 80);
+  doc.text('has successfully passed', center, 104, { align: 'center' });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.setTextColor(20, 20, 20);
+  doc.text(certificate.exam_title, center, 120, { align: 'center', maxWidth: width - 60 });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(13);
+  doc.setTextColor(80, 80, 80);
+  const details = [
+    certificate.subject_name,
+    `Score ${certificate.score}/${certificate.total_marks} (${Math.round(certificate.percentage)}%)`,
+    new Date(certificate.completed_at).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }),
+  ].filter(Boolean);
+  doc.text(details.join('  ·  '), center, 136, { align: 'center' });
+
+  doc.setFontSize(10);
+  doc.text(`Verification code: ${certificate.certificate_code}`, center, height - 32, { align: 'center' });
+  doc.text(`Verify at ${verificationUrl(certificate.certificate_code)}`, center, height - 25, { align: 'center' });
+
+  return doc;
+};
+
+export const downloadCertificate = (certificate: CertificateDetails) => {
+  buildCertificate(certificate).save(`certificate-${slugify(certificate.exam_title)}.pdf`);
+};
+
+// Opens the PDF in a new tab with the print dialog queued
+export const printCertificate = (certificate: CertificateDetails) => {
+  const doc = buildCertificate(certificate);
+  doc.autoPrint();
+  window.open(doc.output('bloburl'), '_blank');
+};
@@ -0,0 +1,201 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export const EXAM_BUNDLE_FORMAT = 'online-examination/exam-bundle';
+export const EXAM_BUNDLE_VERSION = 2;
+
+export interface BundleQuestion {
+  question_text: string;
+  question_type: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  correct_answer: string | null;
+  options: Json | null;
+  answer_key: Json | null;
+  tags: string[];
+  difficulty: string | null;
+  // Added after version 1 bundles were first exported
+  explanation?: string | null;
+  marks: number;
+  order_number: number;
+}
+
+export interface BundleBlueprintRule {
+  tag: string | null;
+  difficulty: string | null;
+  question_count: number;
+  marks: number | null;
+  order_number: number;
+}
+
+// Everything needed to recreate an exam in another project. Ids are left out on
+// purpose; the importing side assigns its own.
+export interface ExamBundle {
+  format: typeof EXAM_BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  exam: {
+    title: string;
+    description: string | null;
+    duration_minutes: number;
+    total_marks: number;
+    pass_percentage: number;
+    // Version 1 bundles carried an absolute pass mark instead of pass_percentage
+    passing_marks?: number;
+    shuffle_questions: boolean;
+    shuffle_options: boolean;
+  };
+  subject: {
+    name: string;
+    description: string | null;
+  } | null;
+  questions: BundleQuestion[];
+  blueprint_rules: BundleBlueprintRule[];
+}
+
+export const fetchExamBundle = async (examId: string): Promise<ExamBundle> => {
+  const { data: exam, error: examError } = await supabase
+    .from('exams')
+    .select('*, subjects(name, description)')
+    .eq('id', examId)
+    .single();
+
+  if (examError) throw examError;
+
+  const { data: links, error: linksError } = await supabase
+    .from('exam_questions')
+    .select('marks, order_number, questions(*)')
+    .eq('exam_id', examId)
+    .order('order_number', { ascending: true });
+
+  if (linksError) throw linksError;
+
+  const { data: rules, error: rulesError } = await supabase
+    .from('exam_blueprint_rules')
+    .select('tag, difficulty, question_count, marks, order_number')
+    .eq('exam_id', examId)
+    .order('order_number', { ascending: true });
+
+  if (rulesError) throw rulesError;
+
+  return {
+    format: EXAM_BUNDLE_FORMAT,
+    version: EXAM_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    exam: {
+      title: exam.title,
+      description: exam.description,
+      duration_minutes: exam.duration_minutes,
+      total_marks: exam.total_marks,
+      pass_percentage: exam.pass_percentage,
+      shuffle_questions: exam.shuffle_questions,
+      shuffle_options: exam.shuffle_options,
+    },
+    subject: exam.subjects,
+    questions: (links || []).map(({ marks, order_number, questions: question }) => ({
+      question_text: question.question_text,
+      question_type: question.question_type,
+      option_a: question.option_a,
+      option_b: question.option_b,
+      option_c: question.option_c,
+      option_d: question.option_d,
+      correct_answer: question.correct_answer,
+      options: question.options,
+      answer_key: question.answer_key,
+      tags: question.tags,
+      difficulty: question.difficulty,
+      explanation: question.explanation,
+      marks,
+      order_number,
+    })),
+    blueprint_rules: rules || [],
+  };
+};
+
+// Returns what is wrong with a parsed file, or null when it can be imported
+export const validateExamBundle = (bundle: Partial<ExamBundle>): string | null => {
+  if (bundle?.format !== EXAM_BUNDLE_FORMAT) return 'This file is not an exam bundle';
+  if (bundle.version > EXAM_BUNDLE_VERSION) return 'This bundle was exported by a newer version of the app';
+  if (!bundle.exam?.title) return 'The bundle has no exam title';
+  if (!Array.isArray(bundle.questions)) return 'The bundle has no questions list';
+  return null;
+};
+
+const bundlePassPercentage = ({ pass_percentage, passing_marks, total_marks }: ExamBundle['exam']) => {
+  if (pass_percentage !== undefined) return pass_percentage;
+  return total_marks > 0 ? Math.min(100, Math.round((passing_marks ?? 0) * 10000 / total_marks) / 100) : 60;
+};
+
+// Recreates the exam inactive under the chosen subject so it can be reviewed before use.
+// Its total marks follow from the imported questions.
+export const importExamBundle = async (bundle: ExamBundle, subjectId: string, userId: string) => {
+  const { total_marks: _total, passing_marks: _passing, ...settings } = bundle.exam;
+  const { data: exam, error: examError } = await supabase
+    .from('exams')
+    .insert({
+      ...settings,
+      pass_percentage: bundlePassPercentage(bundle.exam),
+      subject_id: subjectId,
+      created_by: userId,
+      is_active: false,
+    })
+    .select()
+    .single();
+
+  if (examError) throw examError;
+
+  if (bundle.questions.length > 0) {
+    const { data: questions, error: questionsError } = await supabase
+      .from('questions')
+      .insert(bundle.questions.map(({ order_number: _order, ...question }) => ({
+        ...question,
+        subject_id: subjectId,
+        created_by: userId,
+      })))
+      .select('id');
+
+    if (questionsError) throw questionsError;
+
+    const { error: linksError } = await supabase
+      .from('exam_questions')
+      .insert(questions.map((question, index) => ({
+        exam_id: exam.id,
+        question_id: question.id,
+        marks: bundle.questions[index].marks,
+        order_number: bundle.questions[index].order_number,
+      })));
+
+    if (linksError) throw linksError;
+  }
+
+  if (bundle.blueprint_rules?.length > 0) {
+    const { error: rulesError } = await supabase
+      .from('exam_blueprint_rules')
+      .insert(bundle.blueprint_rules.map(rule => ({ ...rule, exam_id: exam.id })));
+
+    if (rulesError) throw rulesError;
+  }
+
+  return exam;
+};
+
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'exam';
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadExamBundle = (bundle: ExamBundle) => {
+  downloadBlob(
+    new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }),
+    `${slugify(bundle.exam.title)}.exam.json`
+  );
+};
@@ -0,0 +1,104 @@
+// Exam availability windows. opens_at/closes_at are stored as UTC instants; timezone
+// is the IANA zone the admin scheduled in and the one the window is displayed in.
+
+export const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const COMMON_TIMEZONES = [
+  'UTC',
+  'Asia/Manila',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Asia/Kolkata',
+  'Asia/Dubai',
+  'Australia/Sydney',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+];
+
+export const TIMEZONES = COMMON_TIMEZONES.includes(BROWSER_TIMEZONE)
+  ? COMMON_TIMEZONES
+  : [BROWSER_TIMEZONE, ...COMMON_TIMEZONES];
+
+export interface ExamWindow {
+  opens_at: string | null;
+  closes_at: string | null;
+}
+
+export type ExamWindowStatus = 'upcoming' | 'open' | 'closed';
+
+export const getExamWindowStatus = (exam: ExamWindow, now = Date.now()): ExamWindowStatus => {
+  if (exam.opens_at && now < new Date(exam.opens_at).getTime()) return 'upcoming';
+  if (exam.closes_at && now >= new Date(exam.closes_at).getTime()) return 'closed';
+  return 'open';
+};
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const timeZoneOffset = (instant: number, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(new Date(instant))
+      .map(part => [part.type, part.value])
+  );
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// Converts a datetime-local value ("2026-10-20T09:00") read as wall time in timeZone to an ISO instant
+export const zonedInputToIso = (value: string, timeZone: string) => {
+  if (!value) return null;
+  const wallTime = new Date(`${value}:00Z`).getTime();
+  // Re-check the offset at the result so times next to a DST change land correctly
+  const guess = wallTime - timeZoneOffset(wallTime, timeZone);
+  return new Date(wallTime - timeZoneOffset(guess, timeZone)).toISOString();
+};
+
+// The inverse of zonedInputToIso, for filling datetime-local inputs
+export const isoToZonedInput = (iso: string | null, timeZone: string) => {
+  if (!iso) return '';
+  const instant = new Date(iso).getTime();
+  return new Date(instant + timeZoneOffset(instant, timeZone)).toISOString().slice(0, 16);
+};
+
+export const formatInTimeZone = (iso: string, timeZone: string) =>
+  new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(iso));
+
+// "2d 4h", "3h 12m", "4m 05s"
+export const formatCountdown = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+};
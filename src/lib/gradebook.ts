@@ -0,0 +1,126 @@
+import { downloadBlob, slugify } from '@/lib/examPackage';
+
+// An exam_attempts row joined with the student's profile, as the Results tab loads it
+export interface GradebookAttempt {
+  id: string;
+  status: string;
+  score: number | null;
+  total_marks: number;
+  percentage: number | null;
+  passed: boolean | null;
+  started_at: string | null;
+  completed_at: string | null;
+  profiles: { full_name: string; email: string } | null;
+}
+
+export interface GradebookRow {
+  id: string;
+  name: string;
+  email: string;
+  status: string;
+  score: number | null;
+  total_marks: number;
+  percentage: number | null;
+  passed: boolean | null;
+  started_at: string | null;
+  completed_at: string | null;
+  duration_seconds: number | null;
+}
+
+export type GradebookSortKey = 'name' | 'email' | 'score' | 'percentage' | 'status' | 'started_at' | 'completed_at' | 'duration_seconds';
+
+export const ATTEMPT_STATUS_LABELS: Record<string, string> = {
+  in_progress: 'In progress',
+  pending_review: 'Awaiting grading',
+  completed: 'Completed',
+};
+
+export const toGradebookRow = (attempt: GradebookAttempt): GradebookRow => ({
+  id: attempt.id,
+  name: attempt.profiles?.full_name ?? '',
+  email: attempt.profiles?.email ?? '',
+  status: attempt.status,
+  score: attempt.score,
+  total_marks: attempt.total_marks,
+  percentage: attempt.percentage,
+  passed: attempt.passed,
+  started_at: attempt.started_at,
+  completed_at: attempt.completed_at,
+  duration_seconds: attempt.started_at && attempt.completed_at
+    ? Math.max(0, Math.round((new Date(attempt.completed_at).getTime() - new Date(attempt.started_at).getTime()) / 1000))
+    : null,
+});
+
+// Empty values sort last in either direction
+export const sortGradebook = (rows: GradebookRow[], key: GradebookSortKey, ascending: boolean) =>
+  [...rows].sort((a, b) => {
+    const left = a[key];
+    const right = b[key];
+    if (left === null || left === '') return right === null || right === '' ? 0 : 1;
+    if (right === null || right === '') return -1;
+    const order = typeof left === 'number'
+      ? left - (right as number)
+      : String(left).localeCompare(String(right));
+    return ascending ? order : -order;
+  });
+
+// "1h 05m", "42m 10s"
+export const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return '—';
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  return `${minutes}m ${secs.toString().padStart(2, '0')}s`;
+};
+
+const timestamp = (value: string | null, asDate: boolean) => (value ? (asDate ? new Date(value) : value) : '');
+
+// Export columns, in order, with the headings the registrar sees
+const EXPORT_COLUMNS: { header: string; value: (row: GradebookRow, asDate: boolean) => unknown; isDate?: boolean }[] = [
+  { header: 'Student name', value: row => row.name },
+  { header: 'Email', value: row => row.email },
+  { header: 'Status', value: row => ATTEMPT_STATUS_LABELS[row.status] ?? row.status },
+  { header: 'Score', value: row => row.score ?? '' },
+  { header: 'Total marks', value: row => row.total_marks },
+  { header: 'Percentage', value: row => row.percentage ?? '' },
+  { header: 'Result', value: row => (row.passed === null ? '' : row.passed ? 'Pass' : 'Fail') },
+  { header: 'Started at', value: (row, asDate) => timestamp(row.started_at, asDate), isDate: true },
+  { header: 'Completed at', value: (row, asDate) => timestamp(row.completed_at, asDate), isDate: true },
+  { header: 'Duration (minutes)', value: row => (row.duration_seconds === null ? '' : Math.round(row.duration_seconds / 6) / 10) },
+];
+
+const exportTable = (rows: GradebookRow[], asDates: boolean) => [
+  EXPORT_COLUMNS.map(column => column.header),
+  ...rows.map(row => EXPORT_COLUMNS.map(column => column.value(row, asDates))),
+];
+
+const csvCell = (value: unknown) => {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportGradebookCsv = (rows: GradebookRow[], examTitle: string) => {
+  const lines = exportTable(rows, false).map(cells => cells.map(csvCell).join(','));
+  // The BOM makes Excel open UTF-8 names correctly
+  const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, `${slugify(examTitle)}-results.csv`);
+};
+
+export const exportGradebookXlsx = async (rows: GradebookRow[], examTitle: string) => {
+  // Loaded on demand since only this export needs it
+  const { Workbook } = await import('exceljs');
+  const book = new Workbook();
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const sheet = book.addWorksheet(examTitle.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Results');
+  sheet.addRows(exportTable(rows, true));
+  EXPORT_COLUMNS.forEach((column, index) => {
+    if (column.isDate) sheet.getColumn(index + 1).numFmt = 'yyyy-mm-dd hh:mm';
+  });
+
+  const buffer = await book.xlsx.writeBuffer();
+  downloadBlob(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${slugify(examTitle)}-results.xlsx`
+  );
+};
@@ -0,0 +1,180 @@
+import { OPTION_LETTERS } from '@/lib/questionTypes';
+
+// A row of get_item_responses; selected_answer is already the canonical letter
+export interface ItemResponse {
+  attempt_id: string;
+  question_id: string;
+  question_text: string;
+  question_type: string;
+  correct_answer: string | null;
+  marks: number;
+  selected_answer: string | null;
+  is_correct: boolean;
+  marks_awarded: number;
+}
+
+export type OptionCounts = Record<(typeof OPTION_LETTERS)[number] | 'blank', number>;
+
+export interface ItemStats {
+  questionId: string;
+  questionText: string;
+  questionType: string;
+  correctAnswer: string | null;
+  responses: number;
+  // Mean share of the marks earned; the proportion correct for right/wrong items
+  pValue: number;
+  // Correlation between the item and the rest of the attempt; null without spread
+  discrimination: number | null;
+  // How often each option was picked, for multiple choice only
+  optionCounts: OptionCounts | null;
+  flags: string[];
+}
+
+export interface ExamAnalysis {
+  attempts: number;
+  items: ItemStats[];
+  kr20: number | null;
+  // Questions every attempt received; pooled questions can't enter KR-20
+  kr20Items: number;
+}
+
+// Share of students in the upper group when comparing high scorers' choices
+const UPPER_GROUP = 0.27;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const variance = (values: number[]) => {
+  const average = mean(values);
+  return mean(values.map(value => (value - average) ** 2));
+};
+
+const correlation = (xs: number[], ys: number[]) => {
+  if (xs.length < 2) return null;
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let spreadX = 0;
+  let spreadY = 0;
+  xs.forEach((x, index) => {
+    covariance += (x - meanX) * (ys[index] - meanY);
+    spreadX += (x - meanX) ** 2;
+    spreadY += (ys[index] - meanY) ** 2;
+  });
+  return spreadX === 0 || spreadY === 0 ? null : covariance / Math.sqrt(spreadX * spreadY);
+};
+
+const itemScore = (response: ItemResponse) =>
+  response.marks > 0 ? Math.min(1, response.marks_awarded / response.marks) : Number(response.is_correct);
+
+export const analyseExam = (responses: ItemResponse[]): ExamAnalysis => {
+  const byAttempt = new Map<string, Map<string, number>>();
+  const byQuestion = new Map<string, ItemResponse[]>();
+
+  responses.forEach(response => {
+    if (!byAttempt.has(response.attempt_id)) byAttempt.set(response.attempt_id, new Map());
+    byAttempt.get(response.attempt_id).set(response.question_id, itemScore(response));
+    if (!byQuestion.has(response.question_id)) byQuestion.set(response.question_id, []);
+    byQuestion.get(response.question_id).push(response);
+  });
+
+  // Attempts drawn from pools differ in length, so totals are compared as proportions
+  const attemptTotals = new Map<string, { sum: number; count: number }>();
+  byAttempt.forEach((scores, attemptId) => {
+    const values = [...scores.values()];
+    attemptTotals.set(attemptId, { sum: values.reduce((sum, value) => sum + value, 0), count: values.length });
+  });
+
+  const ranked = [...attemptTotals.entries()]
+    .map(([attemptId, total]) => ({ attemptId, proportion: total.sum / total.count }))
+    .sort((a, b) => b.proportion - a.proportion);
+  const upperGroup = new Set(
+    ranked.slice(0, Math.max(1, Math.round(ranked.length * UPPER_GROUP))).map(entry => entry.attemptId)
+  );
+
+  const items = [...byQuestion.values()].map((itemResponses): ItemStats => {
+    const first = itemResponses[0];
+    const scores = itemResponses.map(itemScore);
+
+    // Rest score leaves the item out so it isn't correlated with itself
+    const restScores = itemResponses.map((response, index) => {
+      const total = attemptTotals.get(response.attempt_id);
+      return total.count > 1 ? (total.sum - scores[index]) / (total.count - 1) : 0;
+    });
+    const discrimination = correlation(scores, restScores);
+
+    let optionCounts: OptionCounts | null = null;
+    const flags: string[] = [];
+
+    if (first.question_type === 'mcq') {
+      optionCounts = { A: 0, B: 0, C: 0, D: 0, blank: 0 };
+      const upperCounts: Record<string, number> = {};
+      itemResponses.forEach(response => {
+        const letter = OPTION_LETTERS.find(option => option === response.selected_answer) ?? 'blank';
+        optionCounts[letter]++;
+        if (letter !== 'blank' && upperGroup.has(response.attempt_id)) {
+          upperCounts[letter] = (upperCounts[letter] ?? 0) + 1;
+        }
+      });
+
+      const keyCount = upperCounts[first.correct_answer] ?? 0;
+      const rival = OPTION_LETTERS.find(letter => letter !== first.correct_answer && (upperCounts[letter] ?? 0) > keyCount);
+      if (rival) flags.push(`High scorers chose ${rival} over the key (${first.correct_answer})`);
+    }
+
+    if (discrimination !== null && discrimination < 0) {
+      flags.push('Negative discrimination: weaker students do better on this question');
+    }
+
+    return {
+      questionId: first.question_id,
+      questionText: first.question_text,
+      questionType: first.question_type,
+      correctAnswer: first.correct_answer,
+      responses: itemResponses.length,
+      pValue: mean(scores),
+      discrimination,
+      optionCounts,
+      flags,
+    };
+  });
+
+  // KR-20 (Cronbach's alpha for partial-credit items) over the questions every attempt saw
+  const attemptScores = [...byAttempt.values()];
+  const commonItems = items
+    .filter(item => item.responses === attemptScores.length)
+    .map(item => item.questionId);
+  let kr20: number | null = null;
+  if (commonItems.length > 1 && attemptScores.length > 1) {
+    const totals = attemptScores.map(scores => commonItems.reduce((sum, id) => sum + scores.get(id), 0));
+    const totalVariance = variance(totals);
+    const itemVariance = commonItems.reduce((sum, id) => sum + variance(attemptScores.map(scores => scores.get(id))), 0);
+    const k = commonItems.length;
+    kr20 = totalVariance === 0 ? null : (k / (k - 1)) * (1 - itemVariance / totalVariance);
+  }
+
+  return { attempts: byAttempt.size, items, kr20, kr20Items: commonItems.length };
+};
+
+export const difficultyLabel = (pValue: number) => {
+  if (pValue >= 0.9) return 'Very easy';
+  if (pValue >= 0.7) return 'Easy';
+  if (pValue >= 0.3) return 'Moderate';
+  if (pValue >= 0.1) return 'Hard';
+  return 'Very hard';
+};
+
+export const discriminationLabel = (discrimination: number | null) => {
+  if (discrimination === null) return 'No spread';
+  if (discrimination >= 0.3) return 'Good';
+  if (discrimination >= 0.2) return 'Fair';
+  if (discrimination >= 0) return 'Poor';
+  return 'Negative';
+};
+
+export const reliabilityLabel = (kr20: number | null) => {
+  if (kr20 === null) return 'Not enough data';
+  if (kr20 >= 0.8) return 'Good';
+  if (kr20 >= 0.7) return 'Acceptable';
+  if (kr20 >= 0.5) return 'Questionable';
+  return 'Poor';
+};
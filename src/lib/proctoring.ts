@@ -0,0 +1,139 @@
+// Browser-side integrity monitoring for a running attempt. None of these signals is proof
+// of cheating on its own; they are logged to attempt_events for an admin to review.
+
+export type AttemptEventType =
+  | 'tab_hidden'
+  | 'window_blur'
+  | 'copy'
+  | 'paste'
+  | 'context_menu'
+  | 'fullscreen_exit'
+  | 'devtools_open';
+
+export const ATTEMPT_EVENT_LABELS: Record<AttemptEventType, string> = {
+  tab_hidden: 'Switched tab or minimised',
+  window_blur: 'Left the exam window',
+  copy: 'Copied text',
+  paste: 'Pasted text',
+  context_menu: 'Opened the context menu',
+  fullscreen_exit: 'Left fullscreen',
+  devtools_open: 'Developer tools may be open',
+};
+
+// Logged for context only and left out of the warning count that leads to auto-submit.
+// Keep in sync with log_attempt_event() in the migrations.
+export const INFORMATIONAL_EVENTS: AttemptEventType[] = ['devtools_open'];
+
+export const isViolation = (type: string) => !INFORMATIONAL_EVENTS.includes(type as AttemptEventType);
+
+export interface AttemptEvent {
+  type: AttemptEventType;
+  details?: Record<string, string | number>;
+}
+
+// Docked developer tools shrink the page well beyond what browser toolbars take up. Zoom,
+// side panels and bookmark bars can do the same, so this is only ever informational.
+const DEVTOOLS_GAP_PX = 160;
+const DEVTOOLS_POLL_MS = 1000;
+
+const devtoolsLikelyOpen = () =>
+  window.outerWidth - window.innerWidth > DEVTOOLS_GAP_PX ||
+  window.outerHeight - window.innerHeight > DEVTOOLS_GAP_PX;
+
+// Starts listening and calls onEvent for each suspicious action; returns a cleanup function
+export const startProctoring = (onEvent: (event: AttemptEvent) => void) => {
+  let devtoolsOpen = devtoolsLikelyOpen();
+  let blurCheck: ReturnType<typeof setTimeout> | undefined;
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      onEvent({ type: 'tab_hidden' });
+    }
+  };
+
+  // Switching tabs blurs the window too; wait a moment so it is only logged once
+  const handleBlur = () => {
+    clearTimeout(blurCheck);
+    blurCheck = setTimeout(() => {
+      if (document.visibilityState === 'visible') {
+        onEvent({ type: 'window_blur' });
+      }
+    }, 200);
+  };
+
+  const handleClipboard = (e: ClipboardEvent) => {
+    // Cutting is logged as copying
+    const type = e.type === 'paste' ? 'paste' : 'copy';
+    const text = type === 'paste' ? e.clipboardData?.getData('text') : document.getSelection()?.toString();
+    onEvent({ type, details: { characters: text?.length ?? 0 } });
+  };
+
+  const handleContextMenu = () => onEvent({ type: 'context_menu' });
+
+  const handleFullscreenChange = () => {
+    if (!document.fullscreenElement) {
+      onEvent({ type: 'fullscreen_exit' });
+    }
+  };
+
+  const devtoolsTimer = setInterval(() => {
+    const open = devtoolsLikelyOpen();
+    if (open && !devtoolsOpen) {
+      onEvent({
+        type: 'devtools_open',
+        details: { widthGap: window.outerWidth - window.innerWidth, heightGap: window.outerHeight - window.innerHeight },
+      });
+    }
+    devtoolsOpen = open;
+  }, DEVTOOLS_POLL_MS);
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('blur', handleBlur);
+  document.addEventListener('copy', handleClipboard);
+  document.addEventListener('cut', handleClipboard);
+  document.addEventListener('paste', handleClipboard);
+  document.addEventListener('contextmenu', handleContextMenu);
+  document.addEventListener('fullscreenchange', handleFullscreenChange);
+
+  return () => {
+    clearTimeout(blurCheck);
+    clearInterval(devtoolsTimer);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('blur', handleBlur);
+    document.removeEventListener('copy', handleClipboard);
+    document.removeEventListener('cut', handleClipboard);
+    document.removeEventListener('paste', handleClipboard);
+    document.removeEventListener('contextmenu', handleContextMenu);
+    document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  };
+};
+
+export const fullscreenSupported = () => document.fullscreenEnabled;
+
+export const enterFullscreen = () => document.documentElement.requestFullscreen();
+
+export const exitFullscreen = () => {
+  if (document.fullscreenElement) {
+    document.exitFullscreen().catch(error => console.error('Error leaving fullscreen:', error));
+  }
+};
+
+// Lockdown mode blocks the context menu and the print/save shortcuts. Text selection and
+// printed output are switched off with CSS on the exam page itself.
+export const startLockdown = () => {
+  const handleContextMenu = (e: MouseEvent) => e.preventDefault();
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if ((e.ctrlKey || e.metaKey) && ['p', 's'].includes(e.key.toLowerCase())) {
+      e.preventDefault();
+    }
+  };
+
+  document.addEventListener('contextmenu', handleContextMenu);
+  document.addEventListener('keydown', handleKeyDown);
+
+  return () => {
+    document.removeEventListener('contextmenu', handleContextMenu);
+    document.removeEventListener('keydown', handleKeyDown);
+  };
+};
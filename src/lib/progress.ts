@@ -0,0 +1,103 @@
+// Student progress figures. Everything is percentage based so exams with different
+// totals can be compared and averaged.
+
+export interface ProgressAttempt {
+  id: string;
+  percentage: number | null;
+  passed: boolean | null;
+  completed_at: string | null;
+  exams: {
+    title: string;
+    subject_id: string | null;
+    subjects: { name: string } | null;
+  } | null;
+}
+
+export interface SubjectProgress {
+  subjectId: string | null;
+  subjectName: string;
+  attempts: number;
+  averagePercentage: number;
+  bestPercentage: number;
+  passRate: number;
+}
+
+// A row of get_my_topic_performance
+export interface TopicPerformance {
+  subject_id: string | null;
+  subject_name: string | null;
+  topic: string;
+  questions: number;
+  marks_awarded: number;
+  marks_possible: number;
+}
+
+export interface TopicScore {
+  subjectName: string;
+  topic: string;
+  questions: number;
+  percentage: number;
+}
+
+// Topics answered fewer times than this are too thin to call a strength or weakness
+export const MIN_TOPIC_QUESTIONS = 3;
+export const STRENGTH_THRESHOLD = 75;
+export const WEAKNESS_THRESHOLD = 50;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const average = (values: number[]) =>
+  values.length === 0 ? 0 : round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+export const summarizeProgress = (attempts: ProgressAttempt[]) => {
+  const percentages = attempts.map(attempt => attempt.percentage ?? 0);
+  return {
+    attempts: attempts.length,
+    averagePercentage: average(percentages),
+    bestPercentage: percentages.length === 0 ? 0 : Math.max(...percentages),
+    passRate: average(attempts.map(attempt => (attempt.passed ? 100 : 0))),
+  };
+};
+
+export const subjectProgress = (attempts: ProgressAttempt[]): SubjectProgress[] => {
+  const bySubject = new Map<string, ProgressAttempt[]>();
+  attempts.forEach(attempt => {
+    const key = attempt.exams?.subject_id ?? '';
+    if (!bySubject.has(key)) bySubject.set(key, []);
+    bySubject.get(key).push(attempt);
+  });
+
+  return [...bySubject.entries()]
+    .map(([subjectId, subjectAttempts]) => {
+      const summary = summarizeProgress(subjectAttempts);
+      return {
+        subjectId: subjectId || null,
+        subjectName: subjectAttempts[0].exams?.subjects?.name ?? 'No subject',
+        attempts: summary.attempts,
+        averagePercentage: summary.averagePercentage,
+        bestPercentage: summary.bestPercentage,
+        passRate: summary.passRate,
+      };
+    })
+    .sort((a, b) => a.subjectName.localeCompare(b.subjectName));
+};
+
+export const topicScores = (rows: TopicPerformance[]): TopicScore[] =>
+  rows
+    .filter(row => row.marks_possible > 0)
+    .map(row => ({
+      subjectName: row.subject_name ?? 'No subject',
+      topic: row.topic,
+      questions: row.questions,
+      percentage: round((row.marks_awarded * 100) / row.marks_possible),
+    }));
+
+export const topicStrengths = (scores: TopicScore[]) =>
+  scores
+    .filter(score => score.questions >= MIN_TOPIC_QUESTIONS && score.percentage >= STRENGTH_THRESHOLD)
+    .sort((a, b) => b.percentage - a.percentage);
+
+export const topicWeaknesses = (scores: TopicScore[]) =>
+  scores
+    .filter(score => score.questions >= MIN_TOPIC_QUESTIONS && score.percentage < WEAKNESS_THRESHOLD)
+    .sort((a, b) => a.percentage - b.percentage);
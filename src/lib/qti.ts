@@ -0,0 +1,414 @@
+import JSZip from 'jszip';
+import type { Json } from '@/integrations/supabase/types';
+import { MatchingOptions, OPTION_LETTERS } from '@/lib/questionTypes';
+import { BundleQuestion, EXAM_BUNDLE_FORMAT, EXAM_BUNDLE_VERSION, ExamBundle } from '@/lib/examPackage';
+
+// IMS QTI 2.1 content packages. Marks travel as assessmentItemRef weights, topics and
+// difficulty as LOM metadata in the manifest. Blueprint rules have no QTI equivalent
+// and are only carried by the JSON bundle.
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const MATCH_CORRECT = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+const MAP_RESPONSE = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response';
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const itemId = (index: number) => `ITEM-${index + 1}`;
+const itemHref = (index: number) => `items/item-${index + 1}.xml`;
+
+const scoreDeclaration = `  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue><value>0</value></defaultValue>
+  </outcomeDeclaration>`;
+
+const responseDeclaration = (cardinality: string, baseType: string, values: string[], extra = '') =>
+  `  <responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="${baseType}">
+${values.length > 0 ? `    <correctResponse>
+${values.map(value => `      <value>${escapeXml(value)}</value>`).join('\n')}
+    </correctResponse>
+` : ''}${extra}  </responseDeclaration>`;
+
+const choices = (entries: [string, string][]) =>
+  entries.map(([identifier, text]) => `      <simpleChoice identifier="${identifier}">${escapeXml(text)}</simpleChoice>`).join('\n');
+
+const buildItem = (question: BundleQuestion, index: number, shuffleOptions: boolean) => {
+  const key = (question.answer_key ?? {}) as Record<string, Json>;
+  let declaration = '';
+  let interaction = '';
+  let processing = `  <responseProcessing template="${MATCH_CORRECT}"/>`;
+
+  switch (question.question_type) {
+    case 'mcq': {
+      const options = OPTION_LETTERS
+        .map(letter => [letter, question[`option_${letter.toLowerCase()}` as 'option_a']] as [string, string])
+        .filter(([, text]) => text);
+      declaration = responseDeclaration('single', 'identifier', [question.correct_answer ?? '']);
+      interaction = `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="${shuffleOptions}" maxChoices="1">
+${choices(options)}
+    </choiceInteraction>`;
+      break;
+    }
+    case 'true_false':
+      declaration = responseDeclaration('single', 'identifier', [question.correct_answer ?? '']);
+      interaction = `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+${choices([['true', 'True'], ['false', 'False']])}
+    </choiceInteraction>`;
+      break;
+    case 'multi_select': {
+      const options = (question.options ?? []) as string[];
+      const correct = (key.correct ?? []) as number[];
+      declaration = responseDeclaration('multiple', 'identifier', correct.map(index => `C${index}`));
+      interaction = `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="${shuffleOptions}" maxChoices="0">
+${choices(options.map((text, index) => [`C${index}`, text]))}
+    </choiceInteraction>`;
+      break;
+    }
+    case 'numeric': {
+      const tolerance = Number(key.tolerance ?? 0);
+      declaration = responseDeclaration('single', 'float', [String(key.value ?? '')]);
+      interaction = `    <p><textEntryInteraction responseIdentifier="RESPONSE"/></p>`;
+      processing = `  <responseProcessing>
+    <responseCondition>
+      <responseIf>
+        <equal toleranceMode="absolute" tolerance="${tolerance} ${tolerance}">
+          <variable identifier="RESPONSE"/>
+          <correct identifier="RESPONSE"/>
+        </equal>
+        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+  </responseProcessing>`;
+      break;
+    }
+    case 'short_text': {
+      const accepted = (key.accepted ?? []) as string[];
+      const caseSensitive = Boolean(key.case_sensitive);
+      const mapping = `    <mapping defaultValue="0">
+${accepted.map(answer => `      <mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="${caseSensitive}"/>`).join('\n')}
+    </mapping>
+`;
+      declaration = responseDeclaration('single', 'string', accepted.slice(0, 1), mapping);
+      interaction = `    <p><textEntryInteraction responseIdentifier="RESPONSE"/></p>`;
+      processing = `  <responseProcessing template="${MAP_RESPONSE}"/>`;
+      break;
+    }
+    case 'matching': {
+      const { prompts = [], choices: answers = [] } = (question.options ?? {}) as unknown as MatchingOptions;
+      const matches = (key.matches ?? []) as number[];
+      declaration = responseDeclaration('multiple', 'directedPair', matches.map((choice, prompt) => `P${prompt} C${choice}`));
+      interaction = `    <matchInteraction responseIdentifier="RESPONSE" shuffle="${shuffleOptions}" maxAssociations="${prompts.length}">
+      <simpleMatchSet>
+${prompts.map((text, index) => `        <simpleAssociableChoice identifier="P${index}" matchMax="1">${escapeXml(text)}</simpleAssociableChoice>`).join('\n')}
+      </simpleMatchSet>
+      <simpleMatchSet>
+${answers.map((text, index) => `        <simpleAssociableChoice identifier="C${index}" matchMax="0">${escapeXml(text)}</simpleAssociableChoice>`).join('\n')}
+      </simpleMatchSet>
+    </matchInteraction>`;
+      break;
+    }
+    case 'essay':
+      declaration = responseDeclaration('single', 'string', []);
+      interaction = `${key.rubric ? `    <rubricBlock view="scorer"><p>${escapeXml(String(key.rubric))}</p></rubricBlock>\n` : ''}    <extendedTextInteraction responseIdentifier="RESPONSE"/>`;
+      processing = '';
+      break;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NS}" identifier="${itemId(index)}" title="Question ${index + 1}" adaptive="false" timeDependent="false">
+${declaration}
+${scoreDeclaration}
+  <itemBody>
+    <p>${escapeXml(question.question_text)}</p>
+${interaction}
+  </itemBody>
+${processing}
+</assessmentItem>
+`;
+};
+
+const buildTest = (bundle: ExamBundle) => `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="${QTI_NS}" identifier="TEST" title="${escapeXml(bundle.exam.title)}">
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>
+  <outcomeDeclaration identifier="PASS_PERCENTAGE" cardinality="single" baseType="float">
+    <defaultValue><value>${bundle.exam.pass_percentage}</value></defaultValue>
+  </outcomeDeclaration>
+  <timeLimits maxTime="${bundle.exam.duration_minutes * 60}"/>
+  <testPart identifier="PART-1" navigationMode="nonlinear" submissionMode="simultaneous">
+    <assessmentSection identifier="SECTION-1" title="${escapeXml(bundle.exam.title)}" visible="true">
+      <ordering shuffle="${bundle.exam.shuffle_questions}"/>
+${bundle.exam.description ? `      <rubricBlock view="candidate"><p>${escapeXml(bundle.exam.description)}</p></rubricBlock>\n` : ''}${bundle.questions.map((question, index) => `      <assessmentItemRef identifier="${itemId(index)}" href="${itemHref(index)}">
+        <weight identifier="MARKS" value="${question.marks}"/>
+      </assessmentItemRef>`).join('\n')}
+    </assessmentSection>
+  </testPart>
+</assessmentTest>
+`;
+
+const LOM_DIFFICULTY: Record<string, string> = { easy: 'easy', medium: 'medium', hard: 'difficult' };
+
+const itemMetadata = (question: BundleQuestion) => {
+  if (question.tags.length === 0 && !question.difficulty) return '';
+  return `      <metadata>
+        <imsmd:lom>
+          <imsmd:general>
+${question.tags.map(tag => `            <imsmd:keyword><imsmd:string>${escapeXml(tag)}</imsmd:string></imsmd:keyword>`).join('\n')}
+          </imsmd:general>
+${question.difficulty ? `          <imsmd:educational>
+            <imsmd:difficulty><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>${LOM_DIFFICULTY[question.difficulty]}</imsmd:value></imsmd:difficulty>
+          </imsmd:educational>
+` : ''}        </imsmd:lom>
+      </metadata>
+`;
+};
+
+const buildManifest = (bundle: ExamBundle) => `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM" identifier="MANIFEST-1">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="TEST" type="imsqti_test_xmlv2p1" href="assessment.xml">
+      <file href="assessment.xml"/>
+${bundle.questions.map((_, index) => `      <dependency identifierref="${itemId(index)}"/>`).join('\n')}
+    </resource>
+${bundle.questions.map((question, index) => `    <resource identifier="${itemId(index)}" type="imsqti_item_xmlv2p1" href="${itemHref(index)}">
+${itemMetadata(question)}      <file href="${itemHref(index)}"/>
+    </resource>`).join('\n')}
+  </resources>
+</manifest>
+`;
+
+export const buildQtiPackage = async (bundle: ExamBundle) => {
+  const zip = new JSZip();
+  zip.file('imsmanifest.xml', buildManifest(bundle));
+  zip.file('assessment.xml', buildTest(bundle));
+  bundle.questions.forEach((question, index) => {
+    zip.file(itemHref(index), buildItem(question, index, bundle.exam.shuffle_options));
+  });
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// Import
+
+const byName = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+const first = (parent: Document | Element, name: string) => byName(parent, name)[0];
+const text = (element: Element | undefined) => element?.textContent?.trim() ?? '';
+
+const parseXml = (source: string, fileName: string) => {
+  const document = new DOMParser().parseFromString(source, 'application/xml');
+  if (first(document, 'parsererror')) throw new Error(`${fileName} is not valid XML`);
+  return document;
+};
+
+const correctValues = (item: Document) => byName(first(item, 'correctResponse') ?? item.createElement('none'), 'value').map(text);
+
+// Reads one assessmentItem back into a bundle question, or returns why it can't
+const parseItem = (item: Document): Omit<BundleQuestion, 'marks' | 'order_number' | 'tags' | 'difficulty'> | string => {
+  const body = first(item, 'itemBody');
+  if (!body) return 'Item has no itemBody';
+
+  const interactionNames = ['choiceInteraction', 'textEntryInteraction', 'matchInteraction', 'extendedTextInteraction'];
+  const interaction = interactionNames.map(name => first(body, name)).find(Boolean);
+  const declaration = first(item, 'responseDeclaration');
+
+  // The prompt is whatever body text sits outside the interaction and scorer rubric
+  const promptBody = body.cloneNode(true) as Element;
+  [...interactionNames, 'rubricBlock', 'prompt'].forEach(name => byName(promptBody, name).forEach(node => node.remove()));
+  const questionText = text(promptBody) || text(first(body, 'prompt'));
+
+  const base = {
+    question_text: questionText,
+    option_a: null,
+    option_b: null,
+    option_c: null,
+    option_d: null,
+    correct_answer: null,
+    options: null,
+    answer_key: null,
+  };
+
+  if (!interaction) return 'Item has no supported interaction';
+  const cardinality = declaration?.getAttribute('cardinality');
+  const baseType = declaration?.getAttribute('baseType');
+  const correct = correctValues(item);
+
+  switch (interaction.localName) {
+    case 'choiceInteraction': {
+      const options = byName(interaction, 'simpleChoice').map(choice => ({
+        identifier: choice.getAttribute('identifier'),
+        text: text(choice),
+      }));
+
+      if (cardinality === 'multiple') {
+        return {
+          ...base,
+          question_type: 'multi_select',
+          options: options.map(option => option.text),
+          answer_key: { correct: options.flatMap((option, index) => (correct.includes(option.identifier) ? [index] : [])) },
+        };
+      }
+
+      const labels = options.map(option => option.text.toLowerCase()).sort().join(',');
+      if (options.length === 2 && labels === 'false,true') {
+        const answer = options.find(option => option.identifier === correct[0]);
+        return { ...base, question_type: 'true_false', correct_answer: answer?.text.toLowerCase() ?? null };
+      }
+
+      if (options.length > OPTION_LETTERS.length) {
+        return `Multiple choice items can have at most ${OPTION_LETTERS.length} options`;
+      }
+      const question = { ...base, question_type: 'mcq' };
+      options.forEach((option, index) => {
+        const letter = OPTION_LETTERS[index];
+        question[`option_${letter.toLowerCase()}`] = option.text;
+        if (option.identifier === correct[0]) question.correct_answer = letter;
+      });
+      return question;
+    }
+    case 'textEntryInteraction': {
+      if (baseType === 'float' || baseType === 'integer') {
+        const tolerance = first(item, 'equal')?.getAttribute('tolerance')?.split(' ')[0] ?? '0';
+        return {
+          ...base,
+          question_type: 'numeric',
+          answer_key: { value: Number(correct[0]), tolerance: Number(tolerance) || 0 },
+        };
+      }
+      const entries = byName(item, 'mapEntry').filter(entry => Number(entry.getAttribute('mappedValue')) > 0);
+      const accepted = [...new Set([...correct, ...entries.map(entry => entry.getAttribute('mapKey'))])].filter(Boolean);
+      return {
+        ...base,
+        question_type: 'short_text',
+        answer_key: {
+          accepted,
+          case_sensitive: entries.some(entry => entry.getAttribute('caseSensitive') === 'true'),
+        },
+      };
+    }
+    case 'matchInteraction': {
+      const [promptSet, choiceSet] = byName(interaction, 'simpleMatchSet');
+      const prompts = byName(promptSet, 'simpleAssociableChoice');
+      const choices = byName(choiceSet, 'simpleAssociableChoice');
+      const pairs = new Map(correct.map(pair => pair.split(/\s+/) as [string, string]));
+      return {
+        ...base,
+        question_type: 'matching',
+        options: { prompts: prompts.map(text), choices: choices.map(text) },
+        answer_key: {
+          matches: prompts.map(prompt =>
+            choices.findIndex(choice => choice.getAttribute('identifier') === pairs.get(prompt.getAttribute('identifier')))
+          ),
+        },
+      };
+    }
+    case 'extendedTextInteraction': {
+      const rubric = text(byName(body, 'rubricBlock').find(block => block.getAttribute('view') === 'scorer'));
+      return { ...base, question_type: 'essay', answer_key: rubric ? { rubric } : null };
+    }
+  }
+};
+
+const LOM_TO_DIFFICULTY: Record<string, string> = {
+  'very easy': 'easy',
+  easy: 'easy',
+  medium: 'medium',
+  difficult: 'hard',
+  'very difficult': 'hard',
+};
+
+export interface QtiImport {
+  bundle: ExamBundle;
+  skipped: string[];
+}
+
+export const parseQtiPackage = async (file: Blob): Promise<QtiImport> => {
+  const zip = await JSZip.loadAsync(file);
+  const readXml = async (path: string) => {
+    const entry = zip.file(path);
+    if (!entry) throw new Error(`${path} is missing from the package`);
+    return parseXml(await entry.async('string'), path);
+  };
+
+  const manifest = await readXml('imsmanifest.xml');
+  const resources = byName(manifest, 'resource');
+  const testResource = resources.find(resource => resource.getAttribute('type')?.startsWith('imsqti_test'));
+  const itemResources = new Map(
+    resources
+      .filter(resource => resource.getAttribute('type')?.startsWith('imsqti_item'))
+      .map(resource => [resource.getAttribute('href'), resource])
+  );
+
+  // Without a test every item in the manifest is imported with one mark each
+  const test = testResource ? await readXml(testResource.getAttribute('href')) : null;
+  const refs = test
+    ? byName(test, 'assessmentItemRef').map(ref => ({
+        href: ref.getAttribute('href'),
+        marks: Number(first(ref, 'weight')?.getAttribute('value')) || 1,
+      }))
+    : [...itemResources.keys()].map(href => ({ href, marks: 1 }));
+
+  const questions: BundleQuestion[] = [];
+  const skipped: string[] = [];
+  let shuffleOptions = false;
+
+  for (const [index, ref] of refs.entries()) {
+    const item = await readXml(ref.href);
+    const parsed = parseItem(item);
+    if (typeof parsed === 'string') {
+      skipped.push(`${ref.href}: ${parsed}`);
+      continue;
+    }
+
+    const resource = itemResources.get(ref.href);
+    const lomDifficulty = resource ? text(first(first(resource, 'difficulty') ?? resource, 'value')) : '';
+    shuffleOptions ||= byName(item, 'choiceInteraction').some(choice => choice.getAttribute('shuffle') === 'true');
+
+    questions.push({
+      ...parsed,
+      tags: resource ? byName(resource, 'keyword').map(text).filter(Boolean) : [],
+      difficulty: LOM_TO_DIFFICULTY[lomDifficulty.toLowerCase()] ?? null,
+      marks: ref.marks,
+      order_number: index + 1,
+    });
+  }
+
+  const totalMarks = questions.reduce((sum, question) => sum + question.marks, 0);
+  const maxTime = Number(test ? first(test, 'timeLimits')?.getAttribute('maxTime') : 0);
+  const outcomeValue = (identifier: string) => {
+    const outcome = test
+      ? byName(test, 'outcomeDeclaration').find(declaration => declaration.getAttribute('identifier') === identifier)
+      : undefined;
+    return outcome ? Number(text(first(outcome, 'value'))) : undefined;
+  };
+  // Packages exported before the pass mark became a percentage declare PASS_MARKS instead
+  const passMarks = outcomeValue('PASS_MARKS');
+  const passPercentage = outcomeValue('PASS_PERCENTAGE')
+    ?? (passMarks !== undefined && totalMarks > 0 ? Math.min(100, Math.round(passMarks * 10000 / totalMarks) / 100) : 60);
+
+  return {
+    bundle: {
+      format: EXAM_BUNDLE_FORMAT,
+      version: EXAM_BUNDLE_VERSION,
+      exported_at: new Date().toISOString(),
+      exam: {
+        title: test?.documentElement.getAttribute('title') || 'Imported exam',
+        description: text(test ? byName(test, 'rubricBlock').find(block => block.getAttribute('view') === 'candidate') : undefined) || null,
+        duration_minutes: maxTime > 0 ? Math.ceil(maxTime / 60) : 60,
+        total_marks: totalMarks,
+        pass_percentage: passPercentage,
+        shuffle_questions: test ? first(test, 'ordering')?.getAttribute('shuffle') === 'true' : false,
+        shuffle_options: shuffleOptions,
+      },
+      subject: null,
+      questions,
+      blueprint_rules: [],
+    },
+    skipped,
+  };
+};
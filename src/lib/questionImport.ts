@@ -0,0 +1,380 @@
+import type { Json } from '@/integrations/supabase/types';
+import {
+  OPTION_LETTERS,
+  QUESTION_TYPE_LABELS,
+  QuestionForm,
+  QuestionType,
+  emptyQuestionForm,
+  questionToForm,
+  validateQuestionForm,
+} from '@/lib/questionTypes';
+
+export type ImportFormat = 'csv' | 'json' | 'gift' | 'aiken';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  gift: 'Moodle GIFT',
+  aiken: 'Aiken',
+};
+
+// One parsed question. line is where it started in the source, for error messages
+export interface ImportRow {
+  line: number;
+  form: QuestionForm | null;
+  error: string | null;
+}
+
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'json') return 'json';
+  if (extension === 'gift') return 'gift';
+  if (/^\s*[[{]/.test(text)) return 'json';
+  if (/^ANSWER:\s*[A-Z]\s*$/m.test(text)) return 'aiken';
+  if (/\{[^}]*\}/.test(text)) return 'gift';
+  return 'csv';
+};
+
+const checkRow = (line: number, form: QuestionForm): ImportRow => {
+  if (!form.question_text.trim()) return { line, form, error: 'Question text is empty' };
+  if (!Number.isInteger(form.marks) || form.marks < 1) return { line, form, error: 'Marks must be a positive whole number' };
+  // The editor and the exam page always show all four options, so a shorter set can't be imported as mcq
+  if (form.question_type === 'mcq' && OPTION_LETTERS.some(letter => !form[`option_${letter.toLowerCase()}` as 'option_a'].trim())) {
+    return { line, form, error: `Multiple choice questions need all ${OPTION_LETTERS.length} options (A–D)` };
+  }
+  return { line, form, error: validateQuestionForm(form) };
+};
+
+const failedRow = (line: number, error: string): ImportRow => ({ line, form: null, error });
+
+// CSV
+
+// RFC 4180 style: quoted fields may contain commas, newlines and doubled quotes
+export const parseCsvRecords = (text: string) => {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      if (cells.some(value => value.trim())) records.push({ line: recordLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  cells.push(cell);
+  if (cells.some(value => value.trim())) records.push({ line: recordLine, cells });
+  return records;
+};
+
+const CSV_COLUMNS = ['question', 'a', 'b', 'c', 'd', 'correct', 'marks', 'tags', 'difficulty'];
+
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/^option[\s_]*/, '').replace(/^correct[\s_]*answer$/, 'correct');
+
+export const parseCsv = (text: string): ImportRow[] => {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) return [];
+
+  // A header row is optional; without one the columns are taken in CSV_COLUMNS order
+  const header = records[0].cells.map(normalizeHeader);
+  const hasHeader = header.includes('question');
+  const columns = hasHeader ? header : CSV_COLUMNS;
+
+  return records.slice(hasHeader ? 1 : 0).map(({ line, cells }) => {
+    const value = (column: string) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? '' : (cells[index] ?? '').trim();
+    };
+
+    const form = emptyQuestionForm(1);
+    form.question_text = value('question');
+    form.option_a = value('a');
+    form.option_b = value('b');
+    form.option_c = value('c');
+    form.option_d = value('d');
+    form.marks = value('marks') ? Number(value('marks')) : 1;
+    form.tags = value('tags');
+    form.difficulty = value('difficulty').toLowerCase();
+
+    const correct = value('correct').toUpperCase();
+    if (!OPTION_LETTERS.includes(correct as typeof OPTION_LETTERS[number])) {
+      return failedRow(line, `Correct answer must be one of A, B, C or D (got "${value('correct')}")`);
+    }
+    if (!value(correct.toLowerCase())) {
+      return failedRow(line, `Option ${correct} is marked correct but is empty`);
+    }
+    form.correct_answer = correct;
+    return checkRow(line, form);
+  });
+};
+
+// JSON
+
+// Accepts an array of questions using the same columns as the questions table,
+// which is also what the exam export writes
+export const parseJson = (text: string): ImportRow[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return [failedRow(1, `Invalid JSON: ${(error as Error).message}`)];
+  }
+
+  const items = Array.isArray(data) ? data : (data as { questions?: unknown[] })?.questions;
+  if (!Array.isArray(items)) return [failedRow(1, 'Expected an array of questions')];
+
+  return items.map((item, index) => {
+    const row = index + 1;
+    if (!item || typeof item !== 'object') return failedRow(row, 'Question must be an object');
+
+    const question = item as Record<string, unknown>;
+    const type = (question.question_type ?? 'mcq') as QuestionType;
+    if (!(type in QUESTION_TYPE_LABELS)) return failedRow(row, `Unknown question type "${String(type)}"`);
+
+    const form = questionToForm({
+      question_text: String(question.question_text ?? question.question ?? ''),
+      question_type: type,
+      option_a: (question.option_a as string) ?? null,
+      option_b: (question.option_b as string) ?? null,
+      option_c: (question.option_c as string) ?? null,
+      option_d: (question.option_d as string) ?? null,
+      correct_answer: question.correct_answer == null ? null : String(question.correct_answer),
+      options: (question.options as Json) ?? null,
+      answer_key: (question.answer_key as Json) ?? null,
+      tags: Array.isArray(question.tags)
+        ? question.tags.map(String)
+        : String(question.tags ?? '').split(',').filter(Boolean),
+      difficulty: (question.difficulty as string) ?? null,
+      explanation: (question.explanation as string) ?? null,
+      marks: question.marks == null ? 1 : Number(question.marks),
+      order_number: null,
+    });
+    return checkRow(row, form);
+  });
+};
+
+// GIFT
+
+// Splits on separators that are not escaped with a backslash
+const splitUnescaped = (text: string, separators: RegExp) => {
+  const parts: { marker: string; text: string }[] = [];
+  let current = { marker: '', text: '' };
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      current.text += text[i] + text[i + 1];
+      i++;
+    } else if (separators.test(text[i])) {
+      parts.push(current);
+      current = { marker: text[i], text: '' };
+    } else {
+      current.text += text[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const unescapeGift = (text: string) => text.replace(/\\([~=#{}:\\n])/g, (_, char) => (char === 'n' ? '\n' : char)).trim();
+
+// Drops per-answer feedback ("answer#feedback")
+const withoutFeedback = (text: string) => splitUnescaped(text, /#/)[0].text;
+
+const parseGiftAnswers = (form: QuestionForm, body: string): string | null => {
+  const answers = body.trim();
+
+  if (answers === '') {
+    form.question_type = 'essay';
+    return null;
+  }
+
+  if (/^(T|TRUE|F|FALSE)(#.*)?$/is.test(answers)) {
+    form.question_type = 'true_false';
+    form.correct_answer = /^T/i.test(answers) ? 'true' : 'false';
+    return null;
+  }
+
+  if (answers.startsWith('#')) {
+    const [value, tolerance = '0'] = withoutFeedback(answers.slice(1)).split(':');
+    if (value.includes('..')) return 'Numeric ranges are not supported; use value:tolerance';
+    form.question_type = 'numeric';
+    form.numeric_value = value.trim();
+    form.numeric_tolerance = tolerance.trim();
+    return null;
+  }
+
+  const parts = splitUnescaped(answers, /[=~]/).filter(part => part.marker);
+  if (parts.length === 0) return 'No answers found between { and }';
+
+  if (parts.every(part => part.marker === '=' && part.text.includes('->'))) {
+    form.question_type = 'matching';
+    form.pairs = parts.map(part => {
+      const [prompt, answer] = withoutFeedback(part.text).split('->');
+      return { prompt: unescapeGift(prompt), answer: unescapeGift(answer ?? '') };
+    });
+    return null;
+  }
+
+  if (parts.every(part => part.marker === '=')) {
+    form.question_type = 'short_text';
+    form.accepted_answers = parts.map(part => unescapeGift(withoutFeedback(part.text))).join('\n');
+    return null;
+  }
+
+  // "~%50%answer" weights mark a multiple-select question
+  const choices = parts.map(part => {
+    const weight = part.text.match(/^\s*%(-?[\d.]+)%/);
+    return {
+      text: unescapeGift(withoutFeedback(weight ? part.text.replace(weight[0], '') : part.text)),
+      correct: part.marker === '=' || (weight !== null && Number(weight[1]) > 0),
+    };
+  });
+  const weighted = parts.some(part => /^\s*%/.test(part.text));
+
+  if (!weighted && choices.filter(choice => choice.correct).length === 1 && choices.length <= OPTION_LETTERS.length) {
+    form.question_type = 'mcq';
+    choices.forEach((choice, index) => {
+      const letter = OPTION_LETTERS[index];
+      form[`option_${letter.toLowerCase()}` as 'option_a'] = choice.text;
+      if (choice.correct) form.correct_answer = letter;
+    });
+    return null;
+  }
+
+  form.question_type = 'multi_select';
+  form.choices = choices;
+  return null;
+};
+
+export const parseGift = (text: string): ImportRow[] => {
+  const rows: ImportRow[] = [];
+  const lines = text.split(/\r?\n/);
+  let block: string[] = [];
+  let blockLine = 1;
+
+  const flush = () => {
+    const source = block.join('\n').trim();
+    block = [];
+    if (!source || source.startsWith('$CATEGORY')) return;
+
+    const open = source.search(/(?<!\\)\{/);
+    const close = source.search(/(?<!\\)\}[^}]*$/);
+    if (open === -1 || close < open) {
+      rows.push(failedRow(blockLine, 'Missing answer block in { }'));
+      return;
+    }
+
+    // An optional ::title:: prefix and [format] marker are ignored
+    const questionText = (source.slice(0, open) + ' ' + source.slice(close + 1))
+      .replace(/^::.*?::/s, '')
+      .replace(/^\s*\[\w+\]/, '');
+
+    const form = emptyQuestionForm(1);
+    form.question_text = unescapeGift(questionText.replace(/\s+/g, ' '));
+    const error = parseGiftAnswers(form, source.slice(open + 1, close));
+    rows.push(error ? failedRow(blockLine, error) : checkRow(blockLine, form));
+  };
+
+  lines.forEach((line, index) => {
+    if (line.trim().startsWith('//')) return;
+    if (line.trim() === '') {
+      flush();
+      blockLine = index + 2;
+      return;
+    }
+    if (block.length === 0) blockLine = index + 1;
+    block.push(line);
+  });
+  flush();
+
+  return rows;
+};
+
+// Aiken
+
+export const parseAiken = (text: string): ImportRow[] => {
+  const rows: ImportRow[] = [];
+  let form: QuestionForm | null = null;
+  let startLine = 1;
+  let options: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const answer = line.match(/^ANSWER:\s*([A-Z])\s*$/i);
+    const option = line.match(/^([A-Z])[.)]\s+(.*)$/);
+
+    if (!form) {
+      form = emptyQuestionForm(1);
+      form.question_text = line;
+      startLine = index + 1;
+      options = [];
+    } else if (answer) {
+      const letter = answer[1].toUpperCase();
+      if (options.length > OPTION_LETTERS.length) {
+        rows.push(failedRow(startLine, `Only ${OPTION_LETTERS.length} options are supported (found ${options.length})`));
+      } else if (!options.includes(letter)) {
+        rows.push(failedRow(startLine, `Answer ${letter} does not match any option`));
+      } else {
+        form.correct_answer = letter;
+        rows.push(checkRow(startLine, form));
+      }
+      form = null;
+    } else if (option) {
+      const letter = option[1].toUpperCase();
+      options.push(letter);
+      if (OPTION_LETTERS.includes(letter as typeof OPTION_LETTERS[number])) {
+        form[`option_${letter.toLowerCase()}` as 'option_a'] = option[2].trim();
+      }
+    } else if (options.length === 0) {
+      // Question text may wrap onto several lines before the first option
+      form.question_text += ` ${line}`;
+    } else {
+      rows.push(failedRow(index + 1, `Unexpected line "${line}"; expected an option or ANSWER:`));
+    }
+  });
+
+  if (form) rows.push(failedRow(startLine, 'Question has no ANSWER: line'));
+  return rows;
+};
+
+export const parseQuestions = (format: ImportFormat, text: string): ImportRow[] => {
+  switch (format) {
+    case 'csv':
+      return parseCsv(text);
+    case 'json':
+      return parseJson(text);
+    case 'gift':
+      return parseGift(text);
+    case 'aiken':
+      return parseAiken(text);
+  }
+};
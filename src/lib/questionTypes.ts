@@ -0,0 +1,270 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Keep in sync with questions_question_type_check and score_answer() in the migrations
+export type QuestionType = 'mcq' | 'true_false' | 'multi_select' | 'numeric' | 'short_text' | 'matching' | 'essay';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'Multiple choice',
+  true_false: 'True / False',
+  multi_select: 'Multiple select',
+  numeric: 'Numeric',
+  short_text: 'Short answer',
+  matching: 'Matching',
+  essay: 'Essay',
+};
+
+export const OPTION_LETTERS = ['A', 'B', 'C', 'D'] as const;
+
+export const DIFFICULTY_LEVELS = ['easy', 'medium', 'hard'] as const;
+
+export interface MatchingOptions {
+  prompts: string[];
+  choices: string[];
+}
+
+// A student's answer as held by the exam page. Letter-based types (mcq, true_false)
+// are stored in student_answers.selected_answer, essays in answer_text and the rest
+// as JSON in response.
+export type AnswerValue = string | number | number[] | (number | null)[] | null;
+
+// Flat editor state for the question dialog, covering every type
+export interface QuestionForm {
+  question_text: string;
+  question_type: QuestionType;
+  option_a: string;
+  option_b: string;
+  option_c: string;
+  option_d: string;
+  correct_answer: string;
+  choices: { text: string; correct: boolean }[];
+  numeric_value: string;
+  numeric_tolerance: string;
+  accepted_answers: string;
+  case_sensitive: boolean;
+  pairs: { prompt: string; answer: string }[];
+  rubric: string;
+  explanation: string;
+  tags: string;
+  difficulty: string;
+  marks: number;
+  order_number: number;
+}
+
+interface StoredQuestion {
+  question_text: string;
+  question_type: string;
+  option_a: string | null;
+  option_b: string | null;
+  option_c: string | null;
+  option_d: string | null;
+  correct_answer: string | null;
+  options: Json | null;
+  answer_key: Json | null;
+  tags: string[];
+  difficulty: string | null;
+  explanation: string | null;
+  marks: number;
+  order_number: number | null;
+}
+
+export const usesSelectedAnswer = (type: string) => type === 'mcq' || type === 'true_false';
+
+export const emptyQuestionForm = (orderNumber: number): QuestionForm => ({
+  question_text: '',
+  question_type: 'mcq',
+  option_a: '',
+  option_b: '',
+  option_c: '',
+  option_d: '',
+  correct_answer: '',
+  choices: [
+    { text: '', correct: false },
+    { text: '', correct: false },
+  ],
+  numeric_value: '',
+  numeric_tolerance: '0',
+  accepted_answers: '',
+  case_sensitive: false,
+  pairs: [
+    { prompt: '', answer: '' },
+    { prompt: '', answer: '' },
+  ],
+  rubric: '',
+  explanation: '',
+  tags: '',
+  difficulty: '',
+  marks: 1,
+  order_number: orderNumber,
+});
+
+export const questionToForm = (question: StoredQuestion): QuestionForm => {
+  const form = emptyQuestionForm(question.order_number ?? 1);
+  const options = question.options as Record<string, Json> | Json[] | null;
+  const key = (question.answer_key ?? {}) as Record<string, Json>;
+
+  form.question_text = question.question_text;
+  form.question_type = question.question_type as QuestionType;
+  form.tags = question.tags.join(', ');
+  form.difficulty = question.difficulty ?? '';
+  form.explanation = question.explanation ?? '';
+  form.marks = question.marks;
+
+  switch (form.question_type) {
+    case 'mcq':
+    case 'true_false':
+      form.option_a = question.option_a ?? '';
+      form.option_b = question.option_b ?? '';
+      form.option_c = question.option_c ?? '';
+      form.option_d = question.option_d ?? '';
+      form.correct_answer = question.correct_answer ?? '';
+      break;
+    case 'multi_select': {
+      const correct = (key.correct ?? []) as number[];
+      form.choices = ((options ?? []) as string[]).map((text, index) => ({
+        text,
+        correct: correct.includes(index),
+      }));
+      break;
+    }
+    case 'numeric':
+      form.numeric_value = String(key.value ?? '');
+      form.numeric_tolerance = String(key.tolerance ?? 0);
+      break;
+    case 'short_text':
+      form.accepted_answers = ((key.accepted ?? []) as string[]).join('\n');
+      form.case_sensitive = Boolean(key.case_sensitive);
+      break;
+    case 'matching': {
+      const { prompts = [], choices = [] } = (options ?? {}) as unknown as MatchingOptions;
+      const matches = (key.matches ?? []) as number[];
+      form.pairs = prompts.map((prompt, index) => ({ prompt, answer: choices[matches[index]] ?? '' }));
+      break;
+    }
+    case 'essay':
+      form.rubric = String(key.rubric ?? '');
+      break;
+  }
+
+  return form;
+};
+
+// Returns what is missing, or null when the form can be saved
+export const validateQuestionForm = (form: QuestionForm): string | null => {
+  switch (form.question_type) {
+    case 'mcq':
+    case 'true_false':
+      return form.correct_answer ? null : 'Please select the correct answer';
+    case 'multi_select': {
+      const filled = form.choices.filter(choice => choice.text.trim());
+      if (filled.length < 2) return 'Add at least two options';
+      return filled.some(choice => choice.correct) ? null : 'Mark at least one option as correct';
+    }
+    case 'numeric':
+      if (form.numeric_value.trim() === '' || isNaN(Number(form.numeric_value))) return 'Enter the correct numeric answer';
+      return isNaN(Number(form.numeric_tolerance)) || Number(form.numeric_tolerance) < 0
+        ? 'Tolerance must be zero or a positive number'
+        : null;
+    case 'short_text':
+      return form.accepted_answers.split('\n').some(answer => answer.trim())
+        ? null
+        : 'Add at least one accepted answer';
+    case 'matching': {
+      const filled = form.pairs.filter(pair => pair.prompt.trim() && pair.answer.trim());
+      if (filled.length < 2) return 'Add at least two complete pairs';
+      return filled.length === form.pairs.length ? null : 'Fill in or remove incomplete pairs';
+    }
+    case 'essay':
+      return null;
+  }
+};
+
+export const parseTags = (tags: string) => [...new Set(tags.split(',').map(tag => tag.trim()).filter(Boolean))];
+
+// Converts the editor state into the questions table columns for its type. Marks and
+// order are per exam and live on exam_questions instead.
+export const formToQuestion = (form: QuestionForm) => {
+  const base = {
+    question_text: form.question_text,
+    question_type: form.question_type,
+    tags: parseTags(form.tags),
+    difficulty: form.difficulty || null,
+    explanation: form.explanation.trim() || null,
+    option_a: null,
+    option_b: null,
+    option_c: null,
+    option_d: null,
+    correct_answer: null,
+    options: null,
+    answer_key: null,
+  };
+
+  switch (form.question_type) {
+    case 'mcq':
+      return {
+        ...base,
+        option_a: form.option_a,
+        option_b: form.option_b,
+        option_c: form.option_c,
+        option_d: form.option_d,
+        correct_answer: form.correct_answer,
+      };
+    case 'true_false':
+      return { ...base, correct_answer: form.correct_answer };
+    case 'multi_select': {
+      const choices = form.choices.filter(choice => choice.text.trim());
+      return {
+        ...base,
+        options: choices.map(choice => choice.text.trim()),
+        answer_key: {
+          correct: choices.flatMap((choice, index) => (choice.correct ? [index] : [])),
+        },
+      };
+    }
+    case 'numeric':
+      return {
+        ...base,
+        answer_key: { value: Number(form.numeric_value), tolerance: Number(form.numeric_tolerance) || 0 },
+      };
+    case 'short_text':
+      return {
+        ...base,
+        answer_key: {
+          accepted: form.accepted_answers.split('\n').map(answer => answer.trim()).filter(Boolean),
+          case_sensitive: form.case_sensitive,
+        },
+      };
+    case 'matching': {
+      // Choices are sorted so their order gives nothing away about the pairing
+      const pairs = form.pairs.map(pair => ({ prompt: pair.prompt.trim(), answer: pair.answer.trim() }));
+      const choices = [...new Set(pairs.map(pair => pair.answer))].sort((a, b) => a.localeCompare(b));
+      return {
+        ...base,
+        options: { prompts: pairs.map(pair => pair.prompt), choices },
+        answer_key: { matches: pairs.map(pair => choices.indexOf(pair.answer)) },
+      };
+    }
+    case 'essay':
+      return { ...base, answer_key: form.rubric.trim() ? { rubric: form.rubric.trim() } : null };
+  }
+};
+
+export const isAnswered = (type: string, value: AnswerValue | undefined) => {
+  if (value === undefined || value === null) return false;
+  if (type === 'multi_select') return (value as number[]).length > 0;
+  if (type === 'matching') return (value as (number | null)[]).some(match => match !== null);
+  if (type === 'short_text' || type === 'essay') return (value as string).trim() !== '';
+  return value !== '';
+};
+
+// Splits an answer into the student_answers columns it is stored in
+export const answerToColumns = (type: string, value: AnswerValue) => {
+  if (usesSelectedAnswer(type)) return { selected_answer: value as string, response: null, answer_text: null };
+  if (type === 'essay') return { selected_answer: null, response: null, answer_text: value as string };
+  return { selected_answer: null, response: value as Json, answer_text: null };
+};
+
+export const answerFromColumns = (row: {
+  selected_answer: string | null;
+  response: Json | null;
+  answer_text: string | null;
+}): AnswerValue => row.selected_answer ?? row.answer_text ?? (row.response as AnswerValue);
@@ -0,0 +1,13 @@
+// Keep in sync with profiles_role_check in the migrations
+export type UserRole = 'student' | 'instructor' | 'admin';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  student: 'Student',
+  instructor: 'Instructor',
+  admin: 'Admin',
+};
+
+// Roles that can open the admin panel; instructors only see the subjects and exams they own
+export const STAFF_ROLES: UserRole[] = ['instructor', 'admin'];
+
+export const isStaffRole = (role: string | null | undefined) => STAFF_ROLES.includes(role as UserRole);
@@ -0,0 +1,46 @@
+import { parseCsvRecords } from '@/lib/questionImport';
+
+// Bulk enrollment from a class roster exported as CSV
+
+export type EnrollmentStatus = 'enrolled' | 'already_enrolled' | 'not_found' | 'not_student';
+
+export const ENROLLMENT_STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  enrolled: 'Enrolled',
+  already_enrolled: 'Already enrolled',
+  not_found: 'No account',
+  not_student: 'Not a student',
+};
+
+export interface RosterParseResult {
+  emails: string[];
+  // Lines with no email address on them, header excluded
+  skippedLines: number[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isEmailHeader = (cell: string) => /^e-?mail(\s*address)?$/.test(cell.trim().toLowerCase());
+
+// Uses the column headed "Email" when there is one, otherwise the first cell on each line
+// that looks like an address, so a bare list of emails works too
+export const parseRoster = (text: string): RosterParseResult => {
+  const records = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  if (records.length === 0) return { emails: [], skippedLines: [] };
+
+  const emailColumn = records[0].cells.findIndex(isEmailHeader);
+  const rows = emailColumn === -1 ? records : records.slice(1);
+
+  const emails = new Set<string>();
+  const skippedLines: number[] = [];
+  rows.forEach(({ line, cells }) => {
+    const candidates = emailColumn === -1 ? cells : [cells[emailColumn] ?? ''];
+    const email = candidates.map(cell => cell.trim().toLowerCase()).find(cell => EMAIL_PATTERN.test(cell));
+    if (email) {
+      emails.add(email);
+    } else {
+      skippedLines.push(line);
+    }
+  });
+
+  return { emails: [...emails], skippedLines };
+};
@@ -11,10 +11,32 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
-import { Loader2, Users, BookOpen, FileText, Eye, EyeOff, Edit, Trash2, Plus } from 'lucide-react';
+import { Loader2, Users, BookOpen, FileText, Eye, EyeOff, Edit, Trash2, Plus, Download } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { QuestionManager } from '@/components/QuestionManager';
+import { GradingQueue } from '@/components/GradingQueue';
+import { Gradebook } from '@/components/Gradebook';
+import { ItemAnalysis } from '@/components/ItemAnalysis';
+import { AdminAnalytics } from '@/components/AdminAnalytics';
+import { ProctoringLog } from '@/components/ProctoringLog';
+import { QuestionBank } from '@/components/QuestionBank';
+import { BlueprintManager } from '@/components/BlueprintManager';
+import { ExamImportDialog } from '@/components/ExamImportDialog';
+import { ExamScheduleDialog } from '@/components/ExamScheduleDialog';
+import { ExamPassMarkDialog } from '@/components/ExamPassMarkDialog';
+import { ExamRetakeDialog } from '@/components/ExamRetakeDialog';
+import { ExamProctoringDialog } from '@/components/ExamProctoringDialog';
+import { ExamAccessCodeDialog } from '@/components/ExamAccessCodeDialog';
+import { ExamSectionsDialog } from '@/components/ExamSectionsDialog';
+import { SectionManager } from '@/components/SectionManager';
+import { GRADING_POLICY_LABELS, GradingPolicy } from '@/lib/attemptPolicy';
+import { REVIEW_POLICY_LABELS, reviewPolicyAllowed } from '@/lib/attemptReview';
+import { downloadBlob, downloadExamBundle, fetchExamBundle, slugify } from '@/lib/examPackage';
+import { buildQtiPackage } from '@/lib/qti';
+import { formatInTimeZone } from '@/lib/examSchedule';
+import { isStaffRole, ROLE_LABELS, UserRole } from '@/lib/roles';
 
 const AdminPanel = () => {
   const { userProfile, user } = useAuth();
@@ -36,16 +58,20 @@ const AdminPanel = () => {
     description: '',
     subject_id: '',
     duration_minutes: 60,
-    total_marks: 100,
-    passing_marks: 60,
-    is_active: true
+    pass_percentage: 60,
+    is_active: true,
+    shuffle_questions: false,
+    shuffle_options: false,
+    review_policy: 'immediately'
   });
   const [editingSubject, setEditingSubject] = useState(null);
   const [editingExam, setEditingExam] = useState(null);
   const [selectedExamForQuestions, setSelectedExamForQuestions] = useState(null);
+  // Instructors get the same panel, scoped to the subjects and exams they created
+  const isAdmin = userProfile?.role === 'admin';
 
   useEffect(() => {
-    if (user && userProfile?.role === 'admin') {
+    if (user && isStaffRole(userProfile?.role)) {
       fetchAllData();
     }
   }, [user, userProfile]);
@@ -54,7 +80,7 @@ const AdminPanel = () => {
     setLoading(true);
     try {
       await Promise.all([
-        fetchUsers(),
+        isAdmin && fetchUsers(),
         fetchSubjects(),
         fetchExams()
       ]);
@@ -78,10 +104,15 @@ const AdminPanel = () => {
   };
 
   const fetchSubjects = async () => {
-    const { data, error } = await supabase
+    let query = supabase
       .from('subjects')
       .select('*')
       .order('created_at', { ascending: false });
+
+    // RLS also lets instructors read active subjects the way students do
+    if (!isAdmin) query = query.eq('created_by', user.id);
+
+    const { data, error } = await query;
     
     if (error) throw error;
     setSubjects(data || []);
@@ -89,13 +120,18 @@ const AdminPanel = () => {
   };
 
   const fetchExams = async () => {
-    const { data, error } = await supabase
+    let query = supabase
       .from('exams')
       .select(`
         *,
-        subjects(name)
+        subjects(name),
+        exam_sections(section_id, sections(name))
       `)
       .order('created_at', { ascending: false });
+
+    if (!isAdmin) query = query.eq('created_by', user.id);
+
+    const { data, error } = await query;
     
     if (error) throw error;
     setExams(data || []);
@@ -193,9 +229,11 @@ const AdminPanel = () => {
         description: '',
         subject_id: '',
         duration_minutes: 60,
-        total_marks: 100,
-        passing_marks: 60,
-        is_active: true
+        pass_percentage: 60,
+        is_active: true,
+        shuffle_questions: false,
+        shuffle_options: false,
+        review_policy: 'immediately'
       });
       fetchExams();
     } catch (error) {
@@ -242,9 +280,21 @@ const AdminPanel = () => {
     }
   };
 
-  const toggleUserRole = async (userId, currentRole) => {
-    const newRole = currentRole === 'admin' ? 'student' : 'admin';
-    
+  const exportExam = async (id, format: 'json' | 'qti') => {
+    try {
+      const bundle = await fetchExamBundle(id);
+      if (format === 'json') {
+        downloadExamBundle(bundle);
+      } else {
+        downloadBlob(await buildQtiPackage(bundle), `${slugify(bundle.exam.title)}.qti.zip`);
+      }
+    } catch (error) {
+      console.error('Error exporting exam:', error);
+      toast.error('Failed to export exam');
+    }
+  };
+
+  const updateUserRole = async (userId: string, newRole: UserRole) => {
     try {
       const { error } = await supabase
         .from('profiles')
@@ -253,7 +303,7 @@ const AdminPanel = () => {
 
       if (error) throw error;
       
-      toast.success(`User role updated to ${newRole}`);
+      toast.success(`User role updated to ${ROLE_LABELS[newRole]}`);
       fetchUsers();
     } catch (error) {
       console.error('Error updating user role:', error);
@@ -261,7 +311,7 @@ const AdminPanel = () => {
     }
   };
 
-  if (userProfile?.role !== 'admin') {
+  if (!isStaffRole(userProfile?.role)) {
     return (
       <div className="min-h-screen bg-background">
         <Navigation />
@@ -269,7 +319,7 @@ const AdminPanel = () => {
           <Card>
             <CardContent className="text-center py-8">
               <h2 className="text-xl font-bold text-destructive mb-2">Access Denied</h2>
-              <p className="text-muted-foreground">You need admin privileges to access this page.</p>
+              <p className="text-muted-foreground">You need admin or instructor privileges to access this page.</p>
             </CardContent>
           </Card>
         </div>
@@ -294,21 +344,25 @@ const AdminPanel = () => {
       
       <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
         <div className="mb-8">
-          <h1 className="text-3xl font-bold text-foreground mb-2">Admin Panel</h1>
-          <p className="text-muted-foreground">Manage users, subjects, and exams</p>
+          <h1 className="text-3xl font-bold text-foreground mb-2">{isAdmin ? 'Admin Panel' : 'Instructor Panel'}</h1>
+          <p className="text-muted-foreground">
+            {isAdmin ? 'Manage users, subjects, and exams' : 'Manage your subjects and exams'}
+          </p>
         </div>
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Users</CardTitle>
-              <Users className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-primary">{stats.totalUsers}</div>
-            </CardContent>
-          </Card>
+        <div className={`grid grid-cols-1 ${isAdmin ? 'md:grid-cols-4' : 'md:grid-cols-3'} gap-6 mb-8`}>
+          {isAdmin && (
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Total Users</CardTitle>
+                <Users className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-primary">{stats.totalUsers}</div>
+              </CardContent>
+            </Card>
+          )}
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -341,49 +395,63 @@ const AdminPanel = () => {
           </Card>
         </div>
 
-        <Tabs defaultValue="users" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
-            <TabsTrigger value="users">User Management</TabsTrigger>
+        <Tabs defaultValue={isAdmin ? 'users' : 'subjects'} className="space-y-6">
+          <TabsList className={`grid w-full ${isAdmin ? 'grid-cols-10' : 'grid-cols-8'}`}>
+            {isAdmin && <TabsTrigger value="users">User Management</TabsTrigger>}
             <TabsTrigger value="subjects">Subject Management</TabsTrigger>
+            {isAdmin && <TabsTrigger value="sections">Sections</TabsTrigger>}
             <TabsTrigger value="exams">Exam Management</TabsTrigger>
+            <TabsTrigger value="bank">Question Bank</TabsTrigger>
+            <TabsTrigger value="grading">Grading</TabsTrigger>
+            <TabsTrigger value="results">Results</TabsTrigger>
+            <TabsTrigger value="analysis">Item Analysis</TabsTrigger>
+            <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="proctoring">Proctoring</TabsTrigger>
           </TabsList>
 
           {/* User Management Tab */}
-          <TabsContent value="users">
-            <Card>
-              <CardHeader>
-                <CardTitle>User Management</CardTitle>
-                <CardDescription>Manage user accounts and roles</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {users.map((user) => (
-                    <div key={user.id} className="flex items-center justify-between p-4 border rounded-lg">
-                      <div>
-                        <h3 className="font-medium text-foreground">{user.full_name}</h3>
-                        <p className="text-sm text-muted-foreground">{user.email}</p>
-                        <p className="text-xs text-muted-foreground">
-                          Joined: {new Date(user.created_at).toLocaleDateString()}
-                        </p>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <Badge variant={user.role === 'admin' ? 'default' : 'secondary'}>
-                          {user.role}
-                        </Badge>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => toggleUserRole(user.id, user.role)}
-                        >
-                          {user.role === 'admin' ? 'Make Student' : 'Make Admin'}
-                        </Button>
+          {isAdmin && (
+            <TabsContent value="users">
+              <Card>
+                <CardHeader>
+                  <CardTitle>User Management</CardTitle>
+                  <CardDescription>Manage user accounts and roles</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {users.map((user) => (
+                      <div key={user.id} className="flex items-center justify-between p-4 border rounded-lg">
+                        <div>
+                          <h3 className="font-medium text-foreground">{user.full_name}</h3>
+                          <p className="text-sm text-muted-foreground">{user.email}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Joined: {new Date(user.created_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {/* Admins can't change their own role, so the panel always keeps an admin */}
+                          <Select
+                            value={user.role}
+                            onValueChange={(value) => updateUserRole(user.id, value as UserRole)}
+                            disabled={user.id === userProfile.id}
+                          >
+                            <SelectTrigger className="h-9 w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                                <SelectItem key={role} value={role}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
-          </TabsContent>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
 
           {/* Subject Management Tab */}
           <TabsContent value="subjects">
@@ -473,6 +541,13 @@ const AdminPanel = () => {
             </div>
           </TabsContent>
 
+          {/* Sections Tab */}
+          {isAdmin && (
+            <TabsContent value="sections">
+              <SectionManager users={users} />
+            </TabsContent>
+          )}
+
           {/* Exam Management Tab */}
           <TabsContent value="exams">
             <div className="space-y-6">
@@ -523,7 +598,7 @@ const AdminPanel = () => {
                       />
                     </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                       <div>
                         <Label htmlFor="exam-duration">Duration (minutes)</Label>
                         <Input
@@ -535,22 +610,14 @@ const AdminPanel = () => {
                         />
                       </div>
                       <div>
-                        <Label htmlFor="exam-total-marks">Total Marks</Label>
+                        <Label htmlFor="exam-pass-percentage">Pass mark (%)</Label>
                         <Input
-                          id="exam-total-marks"
+                          id="exam-pass-percentage"
                           type="number"
-                          value={examForm.total_marks}
-                          onChange={(e) => setExamForm({...examForm, total_marks: parseInt(e.target.value)})}
-                          required
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="exam-passing-marks">Passing Marks</Label>
-                        <Input
-                          id="exam-passing-marks"
-                          type="number"
-                          value={examForm.passing_marks}
-                          onChange={(e) => setExamForm({...examForm, passing_marks: parseInt(e.target.value)})}
+                          min="0"
+                          max="100"
+                          value={examForm.pass_percentage}
+                          onChange={(e) => setExamForm({...examForm, pass_percentage: parseFloat(e.target.value)})}
                           required
                         />
                       </div>
@@ -563,6 +630,45 @@ const AdminPanel = () => {
                         <Label htmlFor="exam-active">Active</Label>
                       </div>
                     </div>
+
+                    <div className="flex flex-wrap gap-6">
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="exam-shuffle-questions"
+                          checked={examForm.shuffle_questions}
+                          onCheckedChange={(checked) => setExamForm({...examForm, shuffle_questions: checked})}
+                        />
+                        <Label htmlFor="exam-shuffle-questions">Shuffle question order per attempt</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="exam-shuffle-options"
+                          checked={examForm.shuffle_options}
+                          onCheckedChange={(checked) => setExamForm({...examForm, shuffle_options: checked})}
+                        />
+                        <Label htmlFor="exam-shuffle-options">Shuffle A–D options per attempt (multiple choice questions only)</Label>
+                      </div>
+                    </div>
+
+                    <div className="max-w-xs">
+                      <Label htmlFor="exam-review-policy">Show correct answers</Label>
+                      <Select
+                        value={examForm.review_policy}
+                        onValueChange={(value) => setExamForm({...examForm, review_policy: value})}
+                      >
+                        <SelectTrigger id="exam-review-policy">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {/* New exams have no close date yet; it is set in the schedule once created */}
+                          {Object.entries(REVIEW_POLICY_LABELS).map(([policy, label]) => (
+                            <SelectItem key={policy} value={policy} disabled={!reviewPolicyAllowed(policy, null)}>
+                              {reviewPolicyAllowed(policy, null) ? label : `${label} (set a close date first)`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                     
                     <Button type="submit">
                       <Plus className="h-4 w-4 mr-2" />
@@ -575,7 +681,10 @@ const AdminPanel = () => {
               {/* Exams List */}
               <Card>
                 <CardHeader>
-                  <CardTitle>Manage Exams</CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>Manage Exams</CardTitle>
+                    <ExamImportDialog subjects={subjects} onImported={fetchExams} />
+                  </div>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
@@ -586,9 +695,55 @@ const AdminPanel = () => {
                           <p className="text-sm text-muted-foreground">{exam.description}</p>
                           <div className="text-xs text-muted-foreground space-x-4">
                             <span>Subject: {exam.subjects?.name}</span>
+                            <span>
+                              Sections: {exam.exam_sections.length === 0
+                                ? 'All students'
+                                : exam.exam_sections.map(assignment => assignment.sections?.name).join(', ')}
+                            </span>
                             <span>Duration: {exam.duration_minutes}min</span>
                             <span>Marks: {exam.total_marks}</span>
-                            <span>Pass: {exam.passing_marks}</span>
+                            <span>Pass: {exam.pass_percentage}%</span>
+                            {exam.opens_at && <span>Opens: {formatInTimeZone(exam.opens_at, exam.timezone)}</span>}
+                            {exam.closes_at && <span>Closes: {formatInTimeZone(exam.closes_at, exam.timezone)}</span>}
+                            <span>Attempts: {exam.max_attempts ?? 'Unlimited'}</span>
+                            {exam.max_attempts !== 1 && <span>Counts: {GRADING_POLICY_LABELS[exam.grading_policy as GradingPolicy]}</span>}
+                            {exam.max_violations && <span>Auto-submit after: {exam.max_violations} warnings</span>}
+                            {exam.require_fullscreen && <span>Lockdown: fullscreen</span>}
+                            {exam.requires_access_code && <span>Access code required</span>}
+                          </div>
+                          <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+                            <label className="flex items-center gap-2">
+                              <Switch
+                                checked={exam.shuffle_questions}
+                                onCheckedChange={(checked) => updateExam(exam.id, { shuffle_questions: checked })}
+                              />
+                              Shuffle questions
+                            </label>
+                            <label className="flex items-center gap-2">
+                              <Switch
+                                checked={exam.shuffle_options}
+                                onCheckedChange={(checked) => updateExam(exam.id, { shuffle_options: checked })}
+                              />
+                              Shuffle options (MCQ only)
+                            </label>
+                            <label className="flex items-center gap-2">
+                              Answers shown
+                              <Select
+                                value={exam.review_policy}
+                                onValueChange={(value) => updateExam(exam.id, { review_policy: value })}
+                              >
+                                <SelectTrigger className="h-7 w-48 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(REVIEW_POLICY_LABELS).map(([policy, label]) => (
+                                    <SelectItem key={policy} value={policy} disabled={!reviewPolicyAllowed(policy, exam.closes_at)}>
+                                      {reviewPolicyAllowed(policy, exam.closes_at) ? label : `${label} (set a close date first)`}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </label>
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
@@ -602,6 +757,27 @@ const AdminPanel = () => {
                           >
                             <FileText className="h-4 w-4" />
                           </Button>
+                          <ExamScheduleDialog exam={exam} onSaved={fetchExams} />
+                          <ExamPassMarkDialog exam={exam} onSaved={fetchExams} />
+                          <ExamRetakeDialog exam={exam} onSaved={fetchExams} />
+                          <ExamProctoringDialog exam={exam} onSaved={fetchExams} />
+                          <ExamAccessCodeDialog exam={exam} onSaved={fetchExams} />
+                          <ExamSectionsDialog exam={exam} onSaved={fetchExams} />
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <Download className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => exportExam(exam.id, 'json')}>
+                                Export exam bundle (JSON)
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => exportExam(exam.id, 'qti')}>
+                                Export QTI 2.1 package
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
                           <Button
                             variant="outline"
                             size="sm"
@@ -625,13 +801,50 @@ const AdminPanel = () => {
 
               {/* Question Management */}
               {selectedExamForQuestions && (
-                <QuestionManager
-                  examId={selectedExamForQuestions.id}
-                  examTitle={selectedExamForQuestions.title}
-                />
+                <>
+                  <QuestionManager
+                    examId={selectedExamForQuestions.id}
+                    examTitle={selectedExamForQuestions.title}
+                    subjectId={selectedExamForQuestions.subject_id}
+                  />
+                  <BlueprintManager
+                    examId={selectedExamForQuestions.id}
+                    subjectId={selectedExamForQuestions.subject_id}
+                  />
+                </>
               )}
             </div>
           </TabsContent>
+
+          {/* Question Bank Tab */}
+          <TabsContent value="bank">
+            <QuestionBank subjects={subjects} exams={exams} />
+          </TabsContent>
+
+          {/* Grading Tab */}
+          <TabsContent value="grading">
+            <GradingQueue exams={exams} />
+          </TabsContent>
+
+          {/* Results Tab */}
+          <TabsContent value="results">
+            <Gradebook exams={exams} />
+          </TabsContent>
+
+          {/* Item Analysis Tab */}
+          <TabsContent value="analysis">
+            <ItemAnalysis exams={exams} />
+          </TabsContent>
+
+          {/* Analytics Tab */}
+          <TabsContent value="analytics">
+            <AdminAnalytics exams={exams} />
+          </TabsContent>
+
+          {/* Proctoring Tab */}
+          <TabsContent value="proctoring">
+            <ProctoringLog exams={exams} />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -0,0 +1,317 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Navigation } from '@/components/Navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
+import { AlertCircle, ArrowLeft, Award, CheckCircle, Clock, Download, EyeOff, Lightbulb, MinusCircle, Printer, RefreshCw, XCircle } from 'lucide-react';
+import { formatInTimeZone } from '@/lib/examSchedule';
+import { isStaffRole } from '@/lib/roles';
+import { CertificateDetails, downloadCertificate, printCertificate } from '@/lib/certificate';
+import { QUESTION_TYPE_LABELS, QuestionType } from '@/lib/questionTypes';
+import {
+  ReviewOutcome,
+  ReviewedQuestion,
+  formatCorrectAnswer,
+  formatStudentAnswer,
+  isReviewReleased,
+  reviewOutcome,
+} from '@/lib/attemptReview';
+
+const OUTCOME_BADGES: Record<ReviewOutcome, { label: string; className: string; icon: typeof CheckCircle }> = {
+  correct: { label: 'Correct', className: 'bg-green-100 text-green-800 border-green-200', icon: CheckCircle },
+  partial: { label: 'Partially correct', className: 'bg-yellow-100 text-yellow-800 border-yellow-200', icon: MinusCircle },
+  incorrect: { label: 'Incorrect', className: 'bg-red-100 text-red-800 border-red-200', icon: XCircle },
+  unanswered: { label: 'Not answered', className: 'bg-muted text-muted-foreground', icon: MinusCircle },
+  pending: { label: 'Awaiting grading', className: 'bg-blue-100 text-blue-800 border-blue-200', icon: Clock },
+};
+
+const AttemptResults = () => {
+  const { attemptId } = useParams();
+  const navigate = useNavigate();
+  const { user, userProfile } = useAuth();
+
+  const [attempt, setAttempt] = useState(null);
+  const [questions, setQuestions] = useState<ReviewedQuestion[]>([]);
+  const [certificate, setCertificate] = useState<CertificateDetails | null>(null);
+  // Admins only: times each question's answer was changed after it was first given
+  const [answerChanges, setAnswerChanges] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchResults = useCallback(async () => {
+    try {
+      const { data: attemptData, error: attemptError } = await supabase
+        .from('exam_attempts')
+        .select(`
+          *,
+          exams(title, total_marks, pass_percentage, review_policy, closes_at, timezone, subjects(name))
+        `)
+        .eq('id', attemptId)
+        .maybeSingle();
+
+      if (attemptError) throw attemptError;
+      setAttempt(attemptData);
+
+      if (!attemptData || attemptData.status === 'in_progress') return;
+
+      // Certificates are built from the same record the public verification page shows
+      if (attemptData.passed && attemptData.certificate_code) {
+        const { data: certificateData, error: certificateError } = await supabase
+          .rpc('verify_certificate', { _code: attemptData.certificate_code });
+
+        if (certificateError) throw certificateError;
+        setCertificate(certificateData?.[0] ?? null);
+      }
+
+      // Staff can always review attempts they can see; the server makes the same check for students
+      if (isStaffRole(userProfile?.role) || isReviewReleased(attemptData.exams)) {
+        const { data: reviewData, error: reviewError } = await supabase
+          .rpc('get_attempt_review', { _attempt_id: attemptData.id });
+
+        if (reviewError) throw reviewError;
+        setQuestions(reviewData || []);
+      }
+
+      if (isStaffRole(userProfile?.role)) {
+        const { data: historyData, error: historyError } = await supabase
+          .from('student_answer_history')
+          .select('question_id')
+          .eq('attempt_id', attemptData.id);
+
+        if (historyError) throw historyError;
+
+        // The first entry per question is the original answer, every later one a change
+        const changes: Record<string, number> = {};
+        historyData?.forEach(entry => {
+          changes[entry.question_id] = (changes[entry.question_id] ?? -1) + 1;
+        });
+        setAnswerChanges(changes);
+      }
+    } catch (error) {
+      console.error('Error fetching results:', error);
+      toast.error('Failed to load results');
+    } finally {
+      setLoading(false);
+    }
+  }, [attemptId, userProfile?.role]);
+
+  useEffect(() => {
+    if (user && userProfile && attemptId) {
+      fetchResults();
+    }
+  }, [user, userProfile, attemptId, fetchResults]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p>Loading results...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!attempt || attempt.status === 'in_progress') {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="flex items-center justify-center h-96">
+          <Card>
+            <CardContent className="text-center py-8">
+              <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+              <h2 className="text-xl font-bold mb-2">Results Not Available</h2>
+              <p className="text-muted-foreground">
+                {attempt ? 'This attempt has not been submitted yet.' : 'This attempt does not exist or is not yours.'}
+              </p>
+              <Button className="mt-4" onClick={() => navigate('/dashboard')}>
+                Back to Dashboard
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const exam = attempt.exams;
+  const isPending = attempt.status === 'pending_review';
+  const percentage = attempt.total_marks > 0 ? Math.round((attempt.score / attempt.total_marks) * 100) : 0;
+  const released = isStaffRole(userProfile?.role) || isReviewReleased(exam);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <Button variant="ghost" size="sm" className="mb-4" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+
+        {/* Score Summary */}
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle className="text-2xl">{exam.title}</CardTitle>
+                <CardDescription>
+                  {exam.subjects?.name}
+                  {attempt.completed_at && ` · Submitted ${new Date(attempt.completed_at).toLocaleString()}`}
+                </CardDescription>
+              </div>
+              {isPending ? (
+                <Badge variant="secondary">Awaiting grading</Badge>
+              ) : (
+                <Badge variant={attempt.passed ? 'default' : 'destructive'}>{attempt.passed ? 'Passed' : 'Failed'}</Badge>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-end justify-between">
+              <div>
+                <div className="text-3xl font-bold text-primary">
+                  {attempt.score ?? 0}/{attempt.total_marks}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Pass mark: {exam.pass_percentage}%
+                </p>
+              </div>
+              <div className="text-2xl font-semibold text-foreground">{percentage}%</div>
+            </div>
+            <Progress value={percentage} />
+            {isPending && (
+              <p className="text-sm text-muted-foreground">
+                Some answers are still being graded, so this score may go up.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Certificate */}
+        {certificate && (
+          <Card className="mb-6">
+            <CardContent className="flex items-center justify-between py-4">
+              <div className="flex items-center gap-3">
+                <Award className="h-8 w-8 text-primary" />
+                <div>
+                  <p className="font-medium">Certificate of Completion</p>
+                  <p className="text-sm text-muted-foreground">
+                    Verification code <span className="font-mono">{certificate.certificate_code}</span>
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => printCertificate(certificate)}>
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print
+                </Button>
+                <Button size="sm" onClick={() => downloadCertificate(certificate)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download PDF
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Per-question Review */}
+        {!released ? (
+          <Card>
+            <CardContent className="text-center py-8">
+              <EyeOff className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+              <h2 className="text-lg font-semibold mb-2">Answers Not Released</h2>
+              <p className="text-muted-foreground">
+                {exam.review_policy === 'after_close'
+                  ? `Correct answers will be available after the exam closes on ${formatInTimeZone(exam.closes_at, exam.timezone)}.`
+                  : 'Correct answers are not shown for this exam.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {questions.map((question, index) => {
+              const outcome = OUTCOME_BADGES[reviewOutcome(question)];
+              const OutcomeIcon = outcome.icon;
+              const studentAnswer = formatStudentAnswer(question);
+              const correctAnswer = formatCorrectAnswer(question);
+
+              return (
+                <Card key={question.id}>
+                  <CardHeader>
+                    <div className="flex justify-between items-center">
+                      <CardTitle className="text-lg">Question {index + 1}</CardTitle>
+                      <div className="flex gap-2">
+                        <Badge variant="secondary">{QUESTION_TYPE_LABELS[question.question_type as QuestionType]}</Badge>
+                        <Badge variant="outline" className={outcome.className}>
+                          <OutcomeIcon className="h-3 w-3 mr-1" />
+                          {outcome.label}
+                        </Badge>
+                        <Badge variant="outline">
+                          {question.marks_awarded ?? 0}/{question.marks} marks
+                        </Badge>
+                        {answerChanges[question.id] > 0 && (
+                          <Badge variant="outline">
+                            <RefreshCw className="h-3 w-3 mr-1" />
+                            Changed {answerChanges[question.id]} {answerChanges[question.id] === 1 ? 'time' : 'times'}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <p className="font-medium">{question.question_text}</p>
+
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div>
+                        <p className="text-sm font-medium text-muted-foreground mb-1">Your answer</p>
+                        {studentAnswer.length === 0 ? (
+                          <p className="text-sm italic text-muted-foreground">No answer</p>
+                        ) : (
+                          studentAnswer.map((line, lineIndex) => (
+                            <p key={lineIndex} className="text-sm whitespace-pre-wrap">{line}</p>
+                          ))
+                        )}
+                      </div>
+                      {correctAnswer.length > 0 && (
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground mb-1">Correct answer</p>
+                          {correctAnswer.map((line, lineIndex) => (
+                            <p key={lineIndex} className="text-sm text-green-700">{line}</p>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    {question.feedback && (
+                      <div className="p-3 rounded bg-muted text-sm">
+                        <p className="font-medium mb-1">Grader feedback</p>
+                        <p className="whitespace-pre-wrap">{question.feedback}</p>
+                      </div>
+                    )}
+
+                    {question.explanation && (
+                      <div className="p-3 rounded border border-primary/20 bg-primary/5 text-sm flex gap-2">
+                        <Lightbulb className="h-4 w-4 text-primary flex-shrink-0 mt-0.5" />
+                        <p className="whitespace-pre-wrap">{question.explanation}</p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AttemptResults;
@@ -5,34 +5,23 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
-import { Loader2, Shield, User } from 'lucide-react';
+import { Loader2 } from 'lucide-react';
 
 const Auth = () => {
   const [loading, setLoading] = useState(false);
-  const [signInData, setSignInData] = useState({ email: '', password: '', role: 'student' });
-  const [signUpData, setSignUpData] = useState({ email: '', password: '', fullName: '', confirmPassword: '', role: 'student' });
+  const [signInData, setSignInData] = useState({ email: '', password: '' });
+  const [signUpData, setSignUpData] = useState({ email: '', password: '', fullName: '', confirmPassword: '' });
   const { signIn, signUp } = useAuth();
   const navigate = useNavigate();
 
-  const isNeuEmail = (email: string) => {
-    return email.toLowerCase().endsWith('@neu.edu.ph');
-  };
-
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!signInData.email || !signInData.password || !signInData.role) {
+    if (!signInData.email || !signInData.password) {
       toast.error('Please fill in all fields');
       return;
     }
-    
-    // Validate admin role with domain restriction for sign-in
-    if (signInData.role === 'admin' && !isNeuEmail(signInData.email)) {
-      toast.error('Admin accounts require @neu.edu.ph email addresses');
-      return;
-    }
 
     setLoading(true);
     try {
@@ -52,17 +41,11 @@ const Auth = () => {
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!signUpData.email || !signUpData.password || !signUpData.fullName || !signUpData.confirmPassword || !signUpData.role) {
+    if (!signUpData.email || !signUpData.password || !signUpData.fullName || !signUpData.confirmPassword) {
       toast.error('Please fill in all fields');
       return;
     }
 
-    // Validate admin role with domain restriction
-    if (signUpData.role === 'admin' && !isNeuEmail(signUpData.email)) {
-      toast.error('Admin accounts can only be created with @neu.edu.ph email addresses');
-      return;
-    }
-
     if (signUpData.password !== signUpData.confirmPassword) {
       toast.error('Passwords do not match');
       return;
@@ -75,7 +58,7 @@ const Auth = () => {
 
     setLoading(true);
     try {
-      const { error } = await signUp(signUpData.email, signUpData.password, signUpData.fullName, signUpData.role);
+      const { error } = await signUp(signUpData.email, signUpData.password, signUpData.fullName);
       if (error) {
         if (error.message.includes('already registered')) {
           toast.error('This email is already registered. Please sign in instead.');
@@ -119,36 +102,6 @@ const Auth = () => {
                     onChange={(e) => setSignInData({ ...signInData, email: e.target.value })}
                     required
                   />
-                  {signInData.role === 'admin' && (
-                    <p className="text-xs text-warning">
-                      Admin accounts require @neu.edu.ph email address
-                    </p>
-                  )}
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signin-role">Role</Label>
-                  <Select 
-                    value={signInData.role} 
-                    onValueChange={(value) => setSignInData({ ...signInData, role: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select your role" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="student">
-                        <div className="flex items-center gap-2">
-                          <User className="h-4 w-4" />
-                          <span>Student</span>
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="admin">
-                        <div className="flex items-center gap-2">
-                          <Shield className="h-4 w-4" />
-                          <span>Admin (requires @neu.edu.ph email)</span>
-                        </div>
-                      </SelectItem>
-                    </SelectContent>
-                  </Select>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="signin-password">Password</Label>
@@ -191,36 +144,9 @@ const Auth = () => {
                     onChange={(e) => setSignUpData({ ...signUpData, email: e.target.value })}
                     required
                   />
-                  {signUpData.role === 'admin' && (
-                    <p className="text-xs text-warning">
-                      Admin accounts require @neu.edu.ph email address
-                    </p>
-                  )}
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signup-role">Role</Label>
-                  <Select 
-                    value={signUpData.role} 
-                    onValueChange={(value) => setSignUpData({ ...signUpData, role: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select your role" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="student">
-                        <div className="flex items-center gap-2">
-                          <User className="h-4 w-4" />
-                          <span>Student</span>
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="admin">
-                        <div className="flex items-center gap-2">
-                          <Shield className="h-4 w-4" />
-                          <span>Admin (requires @neu.edu.ph email)</span>
-                        </div>
-                      </SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    New accounts are students; an admin can make you an instructor or admin
+                  </p>
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="signup-password">Password</Label>
@@ -3,18 +3,25 @@ import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { Navigation } from '@/components/Navigation';
 import { ExamCard } from '@/components/ExamCard';
+import { AccessCodeDialog } from '@/components/AccessCodeDialog';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import { Loader2, Trophy, Clock, BookOpen } from 'lucide-react';
+import { formatCountdown, formatInTimeZone, getExamWindowStatus } from '@/lib/examSchedule';
+import { GradingPolicy, getRetakeStatus, keptScore } from '@/lib/attemptPolicy';
+import { ATTEMPT_STATUS_LABELS } from '@/lib/gradebook';
 
 const Dashboard = () => {
   const { user, userProfile } = useAuth();
   const navigate = useNavigate();
   const [exams, setExams] = useState([]);
   const [attempts, setAttempts] = useState([]);
+  const [attemptHistory, setAttemptHistory] = useState([]);
   const [loading, setLoading] = useState(true);
+  const [codeExam, setCodeExam] = useState(null);
   const [stats, setStats] = useState({
     totalExams: 0,
     completedExams: 0,
@@ -38,6 +45,7 @@ const Dashboard = () => {
           subjects(name)
         `)
         .eq('is_active', true)
+        .or(`closes_at.is.null,closes_at.gt.${new Date().toISOString()}`)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -51,26 +59,41 @@ const Dashboard = () => {
 
   const fetchAttempts = async () => {
     try {
-      const { data, error } = await supabase
+      // Expired attempts are graded before the history is read
+      const { error: sweepError } = await supabase.rpc('finalize_expired_attempts');
+      if (sweepError) throw sweepError;
+
+      // Every attempt counts towards retake limits, as in enforce_attempt_policy(); submitted
+      // ones are listed, and only fully graded ones count towards scores
+      const { data: history, error } = await supabase
         .from('exam_attempts')
         .select(`
           *,
-          exams(title, total_marks)
+          exams(title, total_marks, grading_policy)
         `)
         .eq('student_id', user?.id)
-        .eq('status', 'completed')
-        .order('completed_at', { ascending: false });
+        .order('completed_at', { ascending: false, nullsFirst: false });
 
       if (error) throw error;
+
+      const data = (history || []).filter(attempt => ['completed', 'pending_review'].includes(attempt.status));
+      const graded = data.filter(attempt => attempt.status === 'completed');
+      setAttemptHistory(history || []);
+      setAttempts(data);
       
-      setAttempts(data || []);
-      
-      // Calculate stats
-      if (data && data.length > 0) {
-        const completedExams = data.length;
-        const totalScore = data.reduce((sum, attempt) => sum + (attempt.score || 0), 0);
-        const averageScore = Math.round(totalScore / completedExams);
-        const bestScore = Math.max(...data.map(attempt => attempt.score || 0));
+      // Calculate stats from the score each exam keeps under its grading policy
+      if (data.length > 0) {
+        const examIds = [...new Set(graded.map(attempt => attempt.exam_id))];
+        const kept = examIds.map(examId => keptScore(
+          graded.filter(attempt => attempt.exam_id === examId),
+          graded.find(attempt => attempt.exam_id === examId).exams?.grading_policy as GradingPolicy
+        ));
+        // Percentages, since raw scores can't be compared across exams with different totals
+        const completedExams = new Set(data.map(attempt => attempt.exam_id)).size;
+        const averageScore = kept.length > 0
+          ? Math.round(kept.reduce((sum, result) => sum + result.percentage, 0) / kept.length)
+          : 0;
+        const bestScore = kept.length > 0 ? Math.round(Math.max(...kept.map(result => result.percentage))) : 0;
         
         setStats(prev => ({
           ...prev,
@@ -87,7 +110,7 @@ const Dashboard = () => {
     }
   };
 
-  const startExam = async (examId: string) => {
+  const startExam = async (examId: string, accessCode?: string) => {
     try {
       // Check if there's an active attempt
       const { data: activeAttempt } = await supabase
@@ -103,28 +126,54 @@ const Dashboard = () => {
         return;
       }
 
-      // Get exam details for total_marks
-      const { data: examData, error: examError } = await supabase
-        .from('exams')
-        .select('total_marks')
-        .eq('id', examId)
-        .single();
+      const exam = exams.find(e => e.id === examId);
+      const windowStatus = getExamWindowStatus(exam);
+      if (windowStatus === 'upcoming') {
+        toast.error(`This exam opens ${formatInTimeZone(exam.opens_at, exam.timezone)}`);
+        return;
+      }
+      if (windowStatus === 'closed') {
+        toast.error('This exam has closed');
+        fetchExams();
+        return;
+      }
 
-      if (examError) throw examError;
+      const retake = getRetakeStatus(exam, attemptHistory.filter(attempt => attempt.exam_id === examId));
+      if (retake.attemptsLeft === 0) {
+        toast.error('You have used all attempts for this exam');
+        return;
+      }
+      if (retake.nextAttemptAt) {
+        toast.error(`You can retake this exam in ${formatCountdown(retake.nextAttemptAt - Date.now())}`);
+        return;
+      }
 
-      // Create new attempt
-      const { data: newAttempt, error } = await supabase
-        .from('exam_attempts')
-        .insert({
-          exam_id: examId,
-          student_id: user?.id,
-          status: 'in_progress',
-          total_marks: examData.total_marks
-        })
-        .select()
-        .single();
+      // Supervised exams need the session's code before an attempt is created
+      if (exam.requires_access_code && accessCode === undefined) {
+        setCodeExam(exam);
+        return;
+      }
 
-      if (error) throw error;
+      // Create new attempt; the server checks the code and draws its question set and total marks
+      const { data: attempt, error } = await supabase.rpc('start_attempt', {
+        _exam_id: examId,
+        _access_code: accessCode
+      });
+
+      if (error) {
+        // Expired codes, lockouts and retake limits come back with the reason to show
+        if (error.code === '42501') {
+          toast.error(error.message);
+          return;
+        }
+        throw error;
+      }
+
+      // A wrong code is counted by the server and answered with no attempt
+      if (!attempt?.id) {
+        toast.error('Incorrect access code');
+        return;
+      }
       
       navigate(`/exam/${examId}`);
     } catch (error) {
@@ -133,9 +182,11 @@ const Dashboard = () => {
     }
   };
 
-  const getLastAttemptScore = (examId: string) => {
-    const lastAttempt = attempts.find(attempt => attempt.exam_id === examId);
-    return lastAttempt?.score;
+  const getKeptScore = (exam) => {
+    return keptScore(
+      attempts.filter(attempt => attempt.exam_id === exam.id && attempt.status === 'completed'),
+      exam.grading_policy
+    );
   };
 
   const hasAttempted = (examId: string) => {
@@ -195,7 +246,7 @@ const Dashboard = () => {
               <Clock className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-primary">{stats.averageScore}</div>
+              <div className="text-2xl font-bold text-primary">{stats.averageScore}%</div>
             </CardContent>
           </Card>
 
@@ -205,7 +256,7 @@ const Dashboard = () => {
               <Trophy className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-primary">{stats.bestScore}</div>
+              <div className="text-2xl font-bold text-primary">{stats.bestScore}%</div>
             </CardContent>
           </Card>
         </div>
@@ -228,7 +279,8 @@ const Dashboard = () => {
                   exam={exam}
                   onStartExam={startExam}
                   hasAttempted={hasAttempted(exam.id)}
-                  lastScore={getLastAttemptScore(exam.id)}
+                  keptScore={getKeptScore(exam)}
+                  retake={getRetakeStatus(exam, attemptHistory.filter(attempt => attempt.exam_id === exam.id))}
                 />
               ))}
             </div>
@@ -243,7 +295,11 @@ const Dashboard = () => {
               <CardContent className="p-0">
                 <div className="divide-y divide-border">
                   {attempts.slice(0, 5).map((attempt, index) => (
-                    <div key={attempt.id} className="p-4 flex items-center justify-between">
+                    <button
+                      key={attempt.id}
+                      onClick={() => navigate(`/attempts/${attempt.id}`)}
+                      className="w-full text-left p-4 flex items-center justify-between hover:bg-muted/50 transition-colors"
+                    >
                       <div>
                         <h3 className="font-medium text-foreground">
                           {attempt.exams?.title}
@@ -252,15 +308,24 @@ const Dashboard = () => {
                           Completed on {new Date(attempt.completed_at).toLocaleDateString()}
                         </p>
                       </div>
-                      <div className="text-right">
-                        <div className="text-lg font-bold text-primary">
-                          {attempt.score}/{attempt.total_marks}
-                        </div>
-                        <div className="text-sm text-muted-foreground">
-                          {Math.round((attempt.score / attempt.total_marks) * 100)}%
+                      <div className="flex items-center gap-4">
+                        {attempt.status === 'pending_review' ? (
+                          <Badge variant="secondary">{ATTEMPT_STATUS_LABELS.pending_review}</Badge>
+                        ) : (
+                          <Badge variant={attempt.passed ? 'default' : 'destructive'}>
+                            {attempt.passed ? 'Passed' : 'Failed'}
+                          </Badge>
+                        )}
+                        <div className="text-right">
+                          <div className="text-lg font-bold text-primary">
+                            {attempt.score}/{attempt.total_marks}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {Math.round(attempt.percentage ?? 0)}%
+                          </div>
                         </div>
                       </div>
-                    </div>
+                    </button>
                   ))}
                 </div>
               </CardContent>
@@ -268,6 +333,12 @@ const Dashboard = () => {
           </div>
         )}
       </main>
+
+      <AccessCodeDialog
+        examTitle={codeExam?.title ?? null}
+        onSubmit={(code) => startExam(codeExam.id, code)}
+        onClose={() => setCodeExam(null)}
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
@@ -8,16 +8,33 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { toast } from 'sonner';
-import { Clock, CheckCircle, AlertCircle } from 'lucide-react';
-
-interface Question {
+import { Clock, AlertCircle, Cloud, CloudOff, Loader2, Maximize, ShieldAlert } from 'lucide-react';
+import { QuestionResponse } from '@/components/QuestionResponse';
+import type { Json } from '@/integrations/supabase/types';
+import { getExamWindowStatus } from '@/lib/examSchedule';
+import { AnswerValue, QUESTION_TYPE_LABELS, QuestionType, answerFromColumns, isAnswered } from '@/lib/questionTypes';
+import { clearLocalAnswers, getLocalAnswers, mergeAnswers } from '@/lib/answerQueue';
+import { TYPED_ANSWER_DELAY, useAnswerSync } from '@/hooks/useAnswerSync';
+import {
+  ATTEMPT_EVENT_LABELS,
+  enterFullscreen,
+  exitFullscreen,
+  fullscreenSupported,
+  isViolation,
+  startLockdown,
+  startProctoring,
+} from '@/lib/proctoring';
+
+// Students never receive correct_answer; see get_attempt_questions
+interface StudentQuestion {
   id: string;
+  question_type: string;
   question_text: string;
   option_a: string;
   option_b: string;
   option_c: string;
   option_d: string;
-  correct_answer: string;
+  options: Json;
   marks: number;
   order_number: number;
 }
@@ -28,6 +45,7 @@ interface ExamAttempt {
   student_id: string;
   status: string;
   started_at: string;
+  deadline_at: string;
   total_marks: number;
 }
 
@@ -37,13 +55,22 @@ const Exam = () => {
   const { user, userProfile } = useAuth();
   
   const [exam, setExam] = useState(null);
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questions, setQuestions] = useState<StudentQuestion[]>([]);
   const [currentAttempt, setCurrentAttempt] = useState<ExamAttempt | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({});
   const [timeRemaining, setTimeRemaining] = useState(0);
+  const [deadline, setDeadline] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [violations, setViolations] = useState(0);
+  const [violationLimitReached, setViolationLimitReached] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+  // Lockdown exams stay behind the fullscreen gate until the student first enters it
+  const [lockdownStarted, setLockdownStarted] = useState(false);
+  const { status: syncStatus, queueAnswer, flushNow } = useAnswerSync(currentAttempt?.id);
+  // The timer and proctoring effects submit through this so they always run the latest handler
+  const submitExamRef = useRef<() => Promise<void>>();
 
   useEffect(() => {
     if (user && userProfile && examId) {
@@ -52,19 +79,105 @@ const Exam = () => {
   }, [user, userProfile, examId]);
 
   useEffect(() => {
-    if (timeRemaining > 0) {
-      const timer = setTimeout(() => {
-        setTimeRemaining(prev => prev - 1);
-      }, 1000);
-      return () => clearTimeout(timer);
-    } else if (timeRemaining === 0 && currentAttempt) {
+    if (deadline === null) return;
+
+    // Recompute from the deadline each tick so a throttled background tab doesn't drift
+    const timer = setInterval(() => {
+      setTimeRemaining(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  useEffect(() => {
+    if (deadline !== null && timeRemaining === 0 && currentAttempt) {
       // Time's up, auto-submit
-      handleSubmitExam();
+      submitExamRef.current?.();
     }
-  }, [timeRemaining, currentAttempt]);
+  }, [timeRemaining, deadline, currentAttempt]);
+
+  useEffect(() => {
+    if (!currentAttempt || !exam) return;
+
+    return startProctoring(async (event) => {
+      // The server submits the attempt on the event that reaches the limit, so make sure
+      // every answer is there first
+      const counts = isViolation(event.type);
+      if (exam.max_violations && counts) await flushNow();
+
+      const { data, error } = await supabase.rpc('log_attempt_event', {
+        _attempt_id: currentAttempt.id,
+        _event_type: event.type,
+        _details: event.details ?? null
+      });
+
+      if (error) {
+        console.error('Error logging attempt event:', error);
+        return;
+      }
+      const { event_count: count, attempt_status: status } = data[0];
+      setViolations(count);
+
+      if (status !== 'in_progress') {
+        toast.error('Too many integrity warnings. Your exam has been submitted.');
+        setViolationLimitReached(true);
+      } else if (exam.max_violations && counts) {
+        toast.warning(
+          `${ATTEMPT_EVENT_LABELS[event.type]}: warning ${count} of ${exam.max_violations}. ` +
+          `Your exam is submitted automatically after ${exam.max_violations}.`
+        );
+      }
+    });
+  }, [currentAttempt, exam, flushNow]);
+
+  // submit_attempt returns the already graded attempt, which takes the student to their results
+  useEffect(() => {
+    if (violationLimitReached && currentAttempt) {
+      submitExamRef.current?.();
+    }
+  }, [violationLimitReached, currentAttempt]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      // Leaving the exam page, whether submitted or not, ends fullscreen
+      exitFullscreen();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!exam?.require_fullscreen) return;
+    return startLockdown();
+  }, [exam]);
+
+  const handleEnterFullscreen = async () => {
+    try {
+      await enterFullscreen();
+      setLockdownStarted(true);
+    } catch (error) {
+      console.error('Error entering fullscreen:', error);
+      toast.error('Could not switch to fullscreen. Check your browser settings and try again.');
+    }
+  };
+
+  const startCountdown = async (attemptId: string) => {
+    // The server clock is authoritative; only the offset from it is tracked locally
+    const { data: secondsRemaining, error } = await supabase
+      .rpc('get_attempt_time_remaining', { _attempt_id: attemptId });
+
+    if (error) throw error;
+    setTimeRemaining(secondsRemaining);
+    setDeadline(Date.now() + secondsRemaining * 1000);
+  };
 
   const fetchExamData = async () => {
     try {
+      // Close out any attempts whose time ran out while the page was closed
+      const { error: sweepError } = await supabase.rpc('finalize_expired_attempts');
+      if (sweepError) throw sweepError;
+
       // Fetch exam details
       const { data: examData, error: examError } = await supabase
         .from('exams')
@@ -97,52 +210,75 @@ const Exam = () => {
         throw attemptError;
       }
 
+      let attempt = attemptData;
+
       if (attemptData) {
         // Resume existing attempt
         setCurrentAttempt(attemptData);
-        const startTime = new Date(attemptData.started_at).getTime();
-        const now = Date.now();
-        const elapsedMinutes = Math.floor((now - startTime) / (1000 * 60));
-        const remainingMinutes = Math.max(0, examData.duration_minutes - elapsedMinutes);
-        setTimeRemaining(remainingMinutes * 60);
+        await startCountdown(attemptData.id);
 
         // Fetch existing answers
         const { data: answersData, error: answersError } = await supabase
           .from('student_answers')
-          .select('question_id, selected_answer')
+          .select('question_id, selected_answer, response, answer_text')
           .eq('attempt_id', attemptData.id);
 
         if (answersError) throw answersError;
         
         const existingAnswers = {};
         answersData?.forEach(answer => {
-          existingAnswers[answer.question_id] = answer.selected_answer;
+          existingAnswers[answer.question_id] = answerFromColumns(answer);
+        });
+
+        // Answers kept on this device that never reached the server take precedence;
+        // useAnswerSync sends them as soon as the attempt is set
+        const localAnswers = await getLocalAnswers(attemptData.id).catch(error => {
+          console.error('Error reading local answers:', error);
+          return [];
         });
-        setAnswers(existingAnswers);
+        setAnswers(mergeAnswers(existingAnswers, localAnswers));
       } else {
-        // Create new attempt
+        // Resuming is always allowed since the deadline is already clipped to the close time
+        if (getExamWindowStatus(examData) !== 'open') {
+          toast.error('This exam is not open right now');
+          navigate('/dashboard');
+          return;
+        }
+
+        // The access code is asked for on the dashboard before the attempt is created
+        if (examData.requires_access_code) {
+          toast.error('Start this exam from the dashboard with the access code from your supervisor');
+          navigate('/dashboard');
+          return;
+        }
+
+        // Create new attempt; the server draws its question set and total marks
         const { data: newAttempt, error: newAttemptError } = await supabase
-          .from('exam_attempts')
-          .insert({
-            exam_id: examId,
-            student_id: user.id,
-            total_marks: examData.total_marks,
-            status: 'in_progress'
-          })
-          .select()
-          .single();
-
-        if (newAttemptError) throw newAttemptError;
+          .rpc('start_attempt', { _exam_id: examId });
+
+        if (newAttemptError) {
+          // Attempt limits and cooldowns are enforced by the server; show its reason
+          if (newAttemptError.code === '42501') {
+            toast.error(newAttemptError.message);
+            navigate('/dashboard');
+            return;
+          }
+          throw newAttemptError;
+        }
+        // No attempt comes back if a code was set on the exam after this page loaded
+        if (!newAttempt?.id) {
+          toast.error('Start this exam from the dashboard with the access code from your supervisor');
+          navigate('/dashboard');
+          return;
+        }
+        attempt = newAttempt;
         setCurrentAttempt(newAttempt);
-        setTimeRemaining(examData.duration_minutes * 60);
+        await startCountdown(newAttempt.id);
       }
 
-      // Fetch questions
+      // Fetch the questions drawn for this attempt
       const { data: questionsData, error: questionsError } = await supabase
-        .from('questions')
-        .select('*')
-        .eq('exam_id', examId)
-        .order('order_number', { ascending: true });
+        .rpc('get_attempt_questions', { _attempt_id: attempt.id });
 
       if (questionsError) throw questionsError;
       setQuestions(questionsData || []);
@@ -156,24 +292,11 @@ const Exam = () => {
     }
   };
 
-  const handleAnswerSelect = async (questionId: string, answer: string) => {
-    setAnswers(prev => ({ ...prev, [questionId]: answer }));
-
-    // Save answer to database
-    try {
-      const { error } = await supabase
-        .from('student_answers')
-        .upsert({
-          attempt_id: currentAttempt?.id,
-          question_id: questionId,
-          selected_answer: answer
-        });
+  const handleAnswerChange = (question: StudentQuestion, value: AnswerValue) => {
+    setAnswers(prev => ({ ...prev, [question.id]: value }));
 
-      if (error) throw error;
-    } catch (error) {
-      console.error('Error saving answer:', error);
-      toast.error('Failed to save answer');
-    }
+    const isTyped = ['numeric', 'short_text', 'essay'].includes(question.question_type);
+    queueAnswer(question.id, question.question_type, value, isTyped ? TYPED_ANSWER_DELAY : 0);
   };
 
   const handleSubmitExam = async () => {
@@ -182,54 +305,29 @@ const Exam = () => {
     setIsSubmitting(true);
     
     try {
-      // Calculate score
-      const { data: answersData, error: answersError } = await supabase
-        .from('student_answers')
-        .select(`
-          question_id,
-          selected_answer,
-          questions(correct_answer, marks)
-        `)
-        .eq('attempt_id', currentAttempt?.id);
-
-      if (answersError) throw answersError;
-
-      let score = 0;
-      let correctAnswers = 0;
-
-      answersData?.forEach(answer => {
-        const isCorrect = answer.selected_answer === answer.questions.correct_answer;
-        if (isCorrect) {
-          score += answer.questions.marks;
-          correctAnswers++;
-        }
+      // A forced submit goes ahead regardless, so only hold back a manual one. Answers the
+      // server refused can never be saved, so they don't hold it back either.
+      const syncResult = await flushNow();
+      if (syncResult === 'offline' && timeRemaining > 0 && !violationLimitReached) {
+        toast.error('Some answers have not reached the server yet. Check your connection and try again.');
+        setIsSubmitting(false);
+        return;
+      }
 
-        // Update the student_answers record with correctness
-        supabase
-          .from('student_answers')
-          .update({ is_correct: isCorrect })
-          .eq('attempt_id', currentAttempt?.id)
-          .eq('question_id', answer.question_id)
-          .then();
+      // Grading happens in the database so the score cannot be tampered with
+      const { data: gradedAttempt, error } = await supabase.rpc('submit_attempt', {
+        _attempt_id: currentAttempt?.id
       });
 
-      const percentage = exam?.total_marks ? (score / exam.total_marks) * 100 : 0;
-
-      // Update exam attempt
-      const { error: updateError } = await supabase
-        .from('exam_attempts')
-        .update({
-          status: 'completed',
-          score,
-          percentage,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', currentAttempt?.id);
-
-      if (updateError) throw updateError;
+      if (error) throw error;
 
-      toast.success('Exam submitted successfully!');
-      navigate('/dashboard');
+      if (gradedAttempt.status === 'pending_review') {
+        toast.success('Exam submitted! Your final score will be available once essays are graded.');
+      } else {
+        toast.success('Exam submitted successfully!');
+      }
+      await clearLocalAnswers(currentAttempt.id).catch(error => console.error('Error clearing local answers:', error));
+      navigate(`/attempts/${currentAttempt?.id}`);
 
     } catch (error) {
       console.error('Error submitting exam:', error);
@@ -238,6 +336,8 @@ const Exam = () => {
     }
   };
 
+  submitExamRef.current = handleSubmitExam;
+
   const formatTime = (seconds: number) => {
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
@@ -299,15 +399,77 @@ const Exam = () => {
     );
   }
 
+  const lockdown = exam.require_fullscreen;
+
+  if (lockdown && !lockdownStarted) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="max-w-md">
+          <CardContent className="text-center py-8">
+            <Maximize className="h-12 w-12 text-primary mx-auto mb-4" />
+            <h2 className="text-xl font-bold mb-2">{exam.title}</h2>
+            {fullscreenSupported() ? (
+              <>
+                <p className="text-muted-foreground mb-4">
+                  This exam runs in fullscreen. Questions are hidden whenever you leave fullscreen and
+                  every exit is recorded. Your time is already running.
+                </p>
+                <Button onClick={handleEnterFullscreen}>
+                  <Maximize className="h-4 w-4 mr-2" />
+                  Enter fullscreen to begin
+                </Button>
+              </>
+            ) : (
+              <p className="text-muted-foreground">
+                This exam must be taken in fullscreen, which this browser does not support. Please use a
+                desktop browser.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   const currentQuestion = questions[currentQuestionIndex];
   const progress = ((currentQuestionIndex + 1) / questions.length) * 100;
-  const answeredQuestions = Object.keys(answers).length;
+  const answeredQuestions = questions.filter(q => isAnswered(q.question_type, answers[q.id])).length;
+  const contentHidden = lockdown && !isFullscreen;
 
   return (
     <div className="min-h-screen bg-background">
-      <Navigation />
-      
-      <main className="max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+      {/* Lockdown exams offer no way off the page until they are submitted */}
+      {!lockdown && <Navigation />}
+
+      {lockdown && (
+        <p className="hidden print:block p-8 text-center">Printing is disabled during this exam.</p>
+      )}
+
+      {contentHidden && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/60 p-4">
+          <Card className="max-w-md">
+            <CardContent className="text-center py-8">
+              <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+              <h2 className="text-xl font-bold mb-2">You left fullscreen</h2>
+              <p className="text-muted-foreground mb-4">
+                The questions are hidden until you return. This exit has been recorded and your time is
+                still running.
+              </p>
+              <Button onClick={handleEnterFullscreen}>
+                <Maximize className="h-4 w-4 mr-2" />
+                Return to fullscreen
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <main
+        className={`max-w-4xl mx-auto py-6 px-4 sm:px-6 lg:px-8 ${lockdown ? 'select-none print:hidden' : ''} ${
+          contentHidden ? 'blur-lg pointer-events-none' : ''
+        }`}
+        aria-hidden={contentHidden}
+      >
         {/* Exam Header */}
         <Card className="mb-6">
           <CardHeader>
@@ -326,6 +488,40 @@ const Exam = () => {
                 <div className="text-sm text-muted-foreground">
                   {answeredQuestions} / {questions.length} answered
                 </div>
+                {violations > 0 && (
+                  <div className="flex items-center justify-end gap-1 text-xs text-destructive mt-1">
+                    <ShieldAlert className="h-3 w-3" />
+                    {exam.max_violations
+                      ? `${violations} / ${exam.max_violations} integrity warnings`
+                      : `${violations} integrity ${violations === 1 ? 'event' : 'events'} logged`}
+                  </div>
+                )}
+                <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground mt-1">
+                  {syncStatus === 'saved' && (
+                    <>
+                      <Cloud className="h-3 w-3" />
+                      All answers saved
+                    </>
+                  )}
+                  {syncStatus === 'syncing' && (
+                    <>
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Saving…
+                    </>
+                  )}
+                  {syncStatus === 'offline' && (
+                    <span className="flex items-center gap-1 text-destructive">
+                      <CloudOff className="h-3 w-3" />
+                      Offline — answers kept on this device
+                    </span>
+                  )}
+                  {syncStatus === 'rejected' && (
+                    <span className="flex items-center gap-1 text-destructive">
+                      <AlertCircle className="h-3 w-3" />
+                      Not saved — this attempt is no longer open
+                    </span>
+                  )}
+                </div>
               </div>
             </div>
             <Progress value={progress} className="mt-4" />
@@ -339,42 +535,20 @@ const Exam = () => {
               <CardTitle className="text-lg">
                 Question {currentQuestionIndex + 1} of {questions.length}
               </CardTitle>
-              <Badge variant="outline">{currentQuestion.marks} marks</Badge>
+              <div className="flex gap-2">
+                <Badge variant="secondary">{QUESTION_TYPE_LABELS[currentQuestion.question_type as QuestionType]}</Badge>
+                <Badge variant="outline">{currentQuestion.marks} marks</Badge>
+              </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
             <p className="text-lg font-medium">{currentQuestion.question_text}</p>
             
-            <div className="space-y-3">
-              {['A', 'B', 'C', 'D'].map((option) => {
-                const optionText = currentQuestion[`option_${option.toLowerCase()}`];
-                const isSelected = answers[currentQuestion.id] === option;
-                
-                return (
-                  <button
-                    key={option}
-                    onClick={() => handleAnswerSelect(currentQuestion.id, option)}
-                    className={`w-full text-left p-4 rounded-lg border transition-colors ${
-                      isSelected
-                        ? 'border-primary bg-primary/10'
-                        : 'border-border hover:border-primary/50 hover:bg-muted/50'
-                    }`}
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${
-                        isSelected 
-                          ? 'border-primary bg-primary text-primary-foreground' 
-                          : 'border-border'
-                      }`}>
-                        {isSelected && <CheckCircle className="h-4 w-4" />}
-                      </div>
-                      <span className="font-medium">{option}.</span>
-                      <span>{optionText}</span>
-                    </div>
-                  </button>
-                );
-              })}
-            </div>
+            <QuestionResponse
+              question={currentQuestion}
+              value={answers[currentQuestion.id]}
+              onChange={(value) => handleAnswerChange(currentQuestion, value)}
+            />
           </CardContent>
         </Card>
 
@@ -396,7 +570,7 @@ const Exam = () => {
                 className={`w-8 h-8 rounded-full text-sm font-medium transition-colors ${
                   index === currentQuestionIndex
                     ? 'bg-primary text-primary-foreground'
-                    : answers[questions[index].id]
+                    : isAnswered(questions[index].question_type, answers[questions[index].id])
                     ? 'bg-green-100 text-green-800 border border-green-200'
                     : 'bg-muted text-muted-foreground hover:bg-muted/80'
                 }`}
@@ -1,11 +1,12 @@
 import { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Navigate, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import Dashboard from './Dashboard';
 import { Loader2 } from 'lucide-react';
+import { isStaffRole } from '@/lib/roles';
 
 const Index = () => {
-  const { user, loading } = useAuth();
+  const { user, userProfile, loading } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -14,7 +15,8 @@ const Index = () => {
     }
   }, [user, loading, navigate]);
 
-  if (loading) {
+  // Wait for the profile so staff are not shown the student dashboard on the way to theirs
+  if (loading || (user && !userProfile)) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-background">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -26,6 +28,10 @@ const Index = () => {
     return null;
   }
 
+  if (isStaffRole(userProfile.role)) {
+    return <Navigate to="/admin" replace />;
+  }
+
   return <Dashboard />;
 };
 
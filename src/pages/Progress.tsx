@@ -0,0 +1,277 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Navigation } from '@/components/Navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress as ProgressBar } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { ArrowLeft, Loader2, Target, ThumbsDown, ThumbsUp, TrendingUp, Trophy } from 'lucide-react';
+import {
+  MIN_TOPIC_QUESTIONS,
+  ProgressAttempt,
+  TopicScore,
+  subjectProgress,
+  summarizeProgress,
+  topicScores,
+  topicStrengths,
+  topicWeaknesses,
+} from '@/lib/progress';
+
+const scoreChartConfig = {
+  percentage: { label: 'Score (%)', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const TopicList = ({ topics, emptyText }: { topics: TopicScore[]; emptyText: string }) =>
+  topics.length === 0 ? (
+    <p className="text-sm text-muted-foreground">{emptyText}</p>
+  ) : (
+    <div className="space-y-3">
+      {topics.map((topic) => (
+        <div key={`${topic.subjectName}:${topic.topic}`}>
+          <div className="flex justify-between text-sm mb-1">
+            <span>
+              <span className="font-medium">{topic.topic}</span>
+              <span className="text-muted-foreground"> · {topic.subjectName}</span>
+            </span>
+            <span className="text-muted-foreground">
+              {Math.round(topic.percentage)}% over {topic.questions} questions
+            </span>
+          </div>
+          <ProgressBar value={topic.percentage} />
+        </div>
+      ))}
+    </div>
+  );
+
+const Progress = () => {
+  const navigate = useNavigate();
+  const { user, userProfile } = useAuth();
+  const [attempts, setAttempts] = useState<ProgressAttempt[]>([]);
+  const [topics, setTopics] = useState<TopicScore[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProgress = useCallback(async () => {
+    try {
+      const { data: attemptData, error: attemptError } = await supabase
+        .from('exam_attempts')
+        .select(`
+          id,
+          percentage,
+          passed,
+          completed_at,
+          exams(title, subject_id, subjects(name))
+        `)
+        .eq('student_id', user?.id)
+        .eq('status', 'completed')
+        .order('completed_at', { ascending: true });
+
+      if (attemptError) throw attemptError;
+      setAttempts(attemptData || []);
+
+      const { data: topicData, error: topicError } = await supabase.rpc('get_my_topic_performance');
+
+      if (topicError) throw topicError;
+      setTopics(topicScores(topicData || []));
+    } catch (error) {
+      console.error('Error fetching progress:', error);
+      toast.error('Failed to load your progress');
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (user && userProfile) {
+      fetchProgress();
+    }
+  }, [user, userProfile, fetchProgress]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="flex items-center justify-center h-96">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  const summary = summarizeProgress(attempts);
+  const subjects = subjectProgress(attempts);
+  const chartData = attempts.map(attempt => ({
+    date: new Date(attempt.completed_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    exam: attempt.exams?.title,
+    percentage: attempt.percentage ?? 0,
+  }));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <Button variant="ghost" size="sm" className="mb-4" onClick={() => navigate('/dashboard')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Dashboard
+        </Button>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground mb-2">My Progress</h1>
+          <p className="text-muted-foreground">
+            How you have done across every exam you have completed.
+          </p>
+        </div>
+
+        {attempts.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-8">
+              <TrendingUp className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">Complete an exam to start tracking your progress.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {/* Summary Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Exams Completed</CardTitle>
+                  <Trophy className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-primary">{summary.attempts}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Average Score</CardTitle>
+                  <TrendingUp className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-primary">{summary.averagePercentage}%</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Best Score</CardTitle>
+                  <Trophy className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-primary">{summary.bestPercentage}%</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Pass Rate</CardTitle>
+                  <Target className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-primary">{summary.passRate}%</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Score Over Time */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Score Over Time</CardTitle>
+                <CardDescription>Each completed attempt, oldest first. The dashed line is your average.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={scoreChartConfig} className="h-64 w-full">
+                  <LineChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                    <ReferenceLine y={summary.averagePercentage} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+                    <ChartTooltip
+                      content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0]?.payload?.exam} />}
+                    />
+                    <Line dataKey="percentage" stroke="var(--color-percentage)" strokeWidth={2} />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* By Subject */}
+            <Card>
+              <CardHeader>
+                <CardTitle>By Subject</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>Average</TableHead>
+                      <TableHead>Best</TableHead>
+                      <TableHead>Pass rate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {subjects.map((subject) => (
+                      <TableRow key={subject.subjectId ?? 'none'}>
+                        <TableCell className="font-medium">{subject.subjectName}</TableCell>
+                        <TableCell>{subject.attempts}</TableCell>
+                        <TableCell className="w-48">
+                          <div className="flex items-center gap-2">
+                            <ProgressBar value={subject.averagePercentage} className="h-2" />
+                            <span className="text-sm">{subject.averagePercentage}%</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>{subject.bestPercentage}%</TableCell>
+                        <TableCell>{subject.passRate}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Topics */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ThumbsUp className="h-5 w-5 text-green-600" />
+                    Strengths
+                  </CardTitle>
+                  <CardDescription>Topics where you earn most of the marks</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TopicList
+                    topics={topicStrengths(topics)}
+                    emptyText={`No strong topics yet. Topics appear here once you have answered at least ${MIN_TOPIC_QUESTIONS} questions on them.`}
+                  />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ThumbsDown className="h-5 w-5 text-destructive" />
+                    Needs Practice
+                  </CardTitle>
+                  <CardDescription>Topics where you lose the most marks</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TopicList
+                    topics={topicWeaknesses(topics)}
+                    emptyText="Nothing stands out as weak. Keep it up!"
+                  />
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Progress;
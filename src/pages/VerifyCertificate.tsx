@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { BadgeCheck, BookOpen, Loader2, ShieldX } from 'lucide-react';
+import { CertificateDetails } from '@/lib/certificate';
+
+// Public page: anyone holding a certificate code can confirm it without signing in
+const VerifyCertificate = () => {
+  const { code } = useParams();
+  const navigate = useNavigate();
+  const [certificate, setCertificate] = useState<CertificateDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [lookupCode, setLookupCode] = useState(code ?? '');
+
+  useEffect(() => {
+    const verify = async () => {
+      setLoading(true);
+      setCertificate(null);
+      try {
+        const { data, error } = await supabase.rpc('verify_certificate', { _code: code });
+        if (error) throw error;
+        setCertificate(data?.[0] ?? null);
+      } catch (error) {
+        console.error('Error verifying certificate:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    setLookupCode(code ?? '');
+    if (code) verify();
+  }, [code]);
+
+  const handleLookup = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (lookupCode.trim()) navigate(`/verify/${lookupCode.trim().toUpperCase()}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <div className="flex items-center justify-center gap-2 mb-2">
+            <BookOpen className="h-6 w-6 text-primary" />
+            <span className="font-bold text-primary">Online Examination</span>
+          </div>
+          <CardTitle>Certificate Verification</CardTitle>
+          <CardDescription>Check that a certificate of completion is genuine.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : certificate ? (
+            <div className="text-center space-y-3">
+              <BadgeCheck className="h-12 w-12 text-green-600 mx-auto" />
+              <p className="font-medium text-green-700">This certificate is valid</p>
+              <div className="p-4 rounded-lg bg-muted text-sm space-y-1">
+                <p className="text-lg font-semibold">{certificate.student_name}</p>
+                <p>passed <span className="font-medium">{certificate.exam_title}</span></p>
+                {certificate.subject_name && <p className="text-muted-foreground">{certificate.subject_name}</p>}
+                <p className="text-muted-foreground">
+                  Score {certificate.score}/{certificate.total_marks} ({Math.round(certificate.percentage)}%) on{' '}
+                  {new Date(certificate.completed_at).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' })}
+                </p>
+                <p className="font-mono text-xs pt-2">{certificate.certificate_code}</p>
+              </div>
+            </div>
+          ) : (
+            <div className="text-center space-y-3">
+              <ShieldX className="h-12 w-12 text-destructive mx-auto" />
+              <p className="font-medium text-destructive">No valid certificate matches this code</p>
+              <p className="text-sm text-muted-foreground">
+                Check the code printed at the bottom of the certificate and try again.
+              </p>
+            </div>
+          )}
+
+          <form onSubmit={handleLookup} className="flex gap-2">
+            <Input
+              placeholder="XXXX-XXXX-XXXX"
+              value={lookupCode}
+              onChange={(e) => setLookupCode(e.target.value)}
+              className="font-mono"
+            />
+            <Button type="submit">Verify</Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyCertificate;
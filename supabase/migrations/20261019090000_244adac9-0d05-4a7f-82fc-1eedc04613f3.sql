@@ -0,0 +1,66 @@
+-- Grade attempts on the server so students cannot post their own score
+CREATE OR REPLACE FUNCTION public.submit_attempt(_attempt_id uuid)
+RETURNS public.exam_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+  _total_marks integer;
+  _score integer;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _attempt.student_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Exam attempt not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Submitting twice (e.g. timer and button racing) returns the graded attempt
+  IF _attempt.status <> 'in_progress' THEN
+    RETURN _attempt;
+  END IF;
+
+  UPDATE public.student_answers sa
+  SET is_correct = (sa.selected_answer = q.correct_answer)
+  FROM public.questions q
+  WHERE sa.attempt_id = _attempt_id
+    AND q.id = sa.question_id;
+
+  SELECT COALESCE(SUM(q.marks), 0) INTO _score
+  FROM public.questions q
+  WHERE q.exam_id = _attempt.exam_id
+    AND EXISTS (
+      SELECT 1 FROM public.student_answers sa
+      WHERE sa.attempt_id = _attempt_id
+        AND sa.question_id = q.id
+        AND sa.is_correct
+    );
+
+  SELECT total_marks INTO _total_marks
+  FROM public.exams
+  WHERE id = _attempt.exam_id;
+
+  UPDATE public.exam_attempts
+  SET status = 'completed',
+      score = _score,
+      total_marks = _total_marks,
+      percentage = CASE WHEN _total_marks > 0 THEN round(_score * 100.0 / _total_marks, 2) ELSE 0 END,
+      completed_at = now()
+  WHERE id = _attempt_id
+  RETURNING * INTO _attempt;
+
+  RETURN _attempt;
+END;
+$function$;
+
+-- Students may only start attempts and record answers; results are written by submit_attempt
+REVOKE INSERT, UPDATE ON public.exam_attempts FROM anon, authenticated;
+GRANT INSERT (exam_id, student_id, status, total_marks) ON public.exam_attempts TO authenticated;
+
+REVOKE INSERT, UPDATE ON public.student_answers FROM anon, authenticated;
+GRANT INSERT (attempt_id, question_id, selected_answer) ON public.student_answers TO authenticated;
+GRANT UPDATE (attempt_id, question_id, selected_answer) ON public.student_answers TO authenticated;
@@ -0,0 +1,50 @@
+-- Only admins read the questions table directly; its rows carry correct_answer
+DO $$
+DECLARE
+  _policy record;
+BEGIN
+  FOR _policy IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'questions'
+      AND policyname <> 'Admins can manage questions'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.questions', _policy.policyname);
+  END LOOP;
+END $$;
+
+-- Student-facing question list without the answer key
+CREATE OR REPLACE FUNCTION public.get_exam_questions(_exam_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  marks integer,
+  order_number integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  -- Students only see questions while they have an attempt open on the exam
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.exam_attempts ea
+    WHERE ea.exam_id = _exam_id
+      AND ea.student_id = auth.uid()
+      AND ea.status = 'in_progress'
+  ) THEN
+    RAISE EXCEPTION 'No exam attempt in progress' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d, q.marks, q.order_number
+  FROM public.questions q
+  WHERE q.exam_id = _exam_id
+  ORDER BY q.order_number;
+END;
+$function$;
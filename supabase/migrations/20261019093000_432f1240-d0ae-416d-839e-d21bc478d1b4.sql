@@ -0,0 +1,192 @@
+-- Fix each attempt's deadline on the server when it is created
+ALTER TABLE public.exam_attempts ADD COLUMN deadline_at timestamptz;
+
+UPDATE public.exam_attempts ea
+SET deadline_at = COALESCE(ea.started_at, now()) + make_interval(mins => e.duration_minutes)
+FROM public.exams e
+WHERE e.id = ea.exam_id
+  AND ea.deadline_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_attempt_deadline()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _duration_minutes integer;
+BEGIN
+  SELECT duration_minutes INTO _duration_minutes
+  FROM public.exams
+  WHERE id = NEW.exam_id;
+
+  NEW.started_at := now();
+  NEW.deadline_at := now() + make_interval(mins => COALESCE(_duration_minutes, 0));
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_attempt_deadline
+  BEFORE INSERT ON public.exam_attempts
+  FOR EACH ROW EXECUTE FUNCTION public.set_attempt_deadline();
+
+-- Shared grading step used by submit_attempt and the expiry sweep
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+  _total_marks integer;
+  _score integer;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _attempt.status <> 'in_progress' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.student_answers sa
+  SET is_correct = (sa.selected_answer = q.correct_answer)
+  FROM public.questions q
+  WHERE sa.attempt_id = _attempt_id
+    AND q.id = sa.question_id;
+
+  SELECT COALESCE(SUM(q.marks), 0) INTO _score
+  FROM public.questions q
+  WHERE q.exam_id = _attempt.exam_id
+    AND EXISTS (
+      SELECT 1 FROM public.student_answers sa
+      WHERE sa.attempt_id = _attempt_id
+        AND sa.question_id = q.id
+        AND sa.is_correct
+    );
+
+  SELECT total_marks INTO _total_marks
+  FROM public.exams
+  WHERE id = _attempt.exam_id;
+
+  UPDATE public.exam_attempts
+  SET status = 'completed',
+      score = _score,
+      total_marks = _total_marks,
+      percentage = CASE WHEN _total_marks > 0 THEN round(_score * 100.0 / _total_marks, 2) ELSE 0 END,
+      completed_at = LEAST(now(), COALESCE(_attempt.deadline_at, now()))
+  WHERE id = _attempt_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.grade_attempt(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.submit_attempt(_attempt_id uuid)
+RETURNS public.exam_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt_id;
+
+  IF NOT FOUND OR _attempt.student_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Exam attempt not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Submitting twice (e.g. timer and button racing) returns the graded attempt
+  PERFORM public.grade_attempt(_attempt_id);
+
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt_id;
+
+  RETURN _attempt;
+END;
+$function$;
+
+-- Finalize attempts whose deadline passed, e.g. because the student closed the tab.
+-- Users sweep their own attempts on read; the scheduled job (no auth.uid()) sweeps all.
+CREATE OR REPLACE FUNCTION public.finalize_expired_attempts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt_id uuid;
+  _count integer := 0;
+BEGIN
+  FOR _attempt_id IN
+    SELECT id FROM public.exam_attempts
+    WHERE status = 'in_progress'
+      AND deadline_at <= now()
+      AND (auth.uid() IS NULL OR student_id = auth.uid())
+  LOOP
+    PERFORM public.grade_attempt(_attempt_id);
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$function$;
+
+-- Remaining time according to the database clock, so client clock skew does not matter
+CREATE OR REPLACE FUNCTION public.get_attempt_time_remaining(_attempt_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT GREATEST(0, floor(extract(epoch FROM deadline_at - now())))::integer
+  FROM public.exam_attempts
+  WHERE id = _attempt_id
+    AND student_id = auth.uid();
+$function$;
+
+-- Reject answers once the attempt is over
+CREATE OR REPLACE FUNCTION public.enforce_attempt_deadline()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+BEGIN
+  -- Grading only touches is_correct and must keep working after the deadline
+  IF TG_OP = 'UPDATE' AND NEW.selected_answer IS NOT DISTINCT FROM OLD.selected_answer THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = NEW.attempt_id;
+
+  IF _attempt.status <> 'in_progress' OR _attempt.deadline_at <= now() THEN
+    RAISE EXCEPTION 'Exam time is over; answers can no longer be changed' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_attempt_deadline
+  BEFORE INSERT OR UPDATE ON public.student_answers
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_attempt_deadline();
+
+-- Sweep expired attempts every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'finalize-expired-attempts',
+  '* * * * *',
+  'SELECT public.finalize_expired_attempts()'
+);
@@ -0,0 +1,220 @@
+-- Question types beyond four-option MCQ.
+--   mcq, true_false: option_a..option_d / correct_answer ('A'..'D' or 'true'/'false')
+--   multi_select:    options ["..."],                        answer_key {"correct": [0, 2]}
+--   numeric:                                                  answer_key {"value": 9.81, "tolerance": 0.05}
+--   short_text:                                               answer_key {"accepted": ["..."], "case_sensitive": false}
+--   matching:        options {"prompts": [...], "choices": [...]}, answer_key {"matches": [choice index per prompt]}
+ALTER TABLE public.questions
+  ADD COLUMN question_type text NOT NULL DEFAULT 'mcq',
+  ADD COLUMN options jsonb,
+  ADD COLUMN answer_key jsonb,
+  ADD CONSTRAINT questions_question_type_check
+    CHECK (question_type IN ('mcq', 'true_false', 'multi_select', 'numeric', 'short_text', 'matching'));
+
+ALTER TABLE public.questions
+  ALTER COLUMN option_a DROP NOT NULL,
+  ALTER COLUMN option_b DROP NOT NULL,
+  ALTER COLUMN option_c DROP NOT NULL,
+  ALTER COLUMN option_d DROP NOT NULL,
+  ALTER COLUMN correct_answer DROP NOT NULL;
+
+-- Letter answers stay in selected_answer; structured answers go in response
+ALTER TABLE public.student_answers
+  ADD COLUMN response jsonb,
+  ADD COLUMN marks_awarded numeric;
+
+-- Partial credit makes fractional scores possible
+ALTER TABLE public.exam_attempts ALTER COLUMN score TYPE numeric;
+
+GRANT INSERT (response) ON public.student_answers TO authenticated;
+GRANT UPDATE (response) ON public.student_answers TO authenticated;
+
+-- Fraction (0..1) of a question's marks earned by an answer
+CREATE OR REPLACE FUNCTION public.score_answer(_question public.questions, _selected_answer text, _response jsonb)
+RETURNS numeric
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $function$
+DECLARE
+  _key jsonb := _question.answer_key;
+  _hits integer;
+  _misses integer;
+  _accepted text;
+BEGIN
+  CASE _question.question_type
+    WHEN 'mcq', 'true_false' THEN
+      RETURN CASE WHEN _selected_answer = _question.correct_answer THEN 1 ELSE 0 END;
+
+    WHEN 'multi_select' THEN
+      IF jsonb_typeof(_response) IS DISTINCT FROM 'array' OR COALESCE(jsonb_array_length(_key->'correct'), 0) = 0 THEN
+        RETURN 0;
+      END IF;
+      -- Each wrong pick cancels a right one so selecting everything earns nothing
+      SELECT count(*) FILTER (WHERE _key->'correct' @> jsonb_build_array(r.value)),
+             count(*) FILTER (WHERE NOT _key->'correct' @> jsonb_build_array(r.value))
+      INTO _hits, _misses
+      FROM (SELECT DISTINCT value FROM jsonb_array_elements(_response)) r;
+      RETURN GREATEST(0, (_hits - _misses)::numeric / jsonb_array_length(_key->'correct'));
+
+    WHEN 'numeric' THEN
+      IF jsonb_typeof(_response) IS DISTINCT FROM 'number' THEN
+        RETURN 0;
+      END IF;
+      RETURN CASE
+        WHEN abs((_response #>> '{}')::numeric - (_key->>'value')::numeric)
+             <= COALESCE((_key->>'tolerance')::numeric, 0)
+        THEN 1 ELSE 0
+      END;
+
+    WHEN 'short_text' THEN
+      IF jsonb_typeof(_response) IS DISTINCT FROM 'string' THEN
+        RETURN 0;
+      END IF;
+      FOR _accepted IN SELECT jsonb_array_elements_text(_key->'accepted') LOOP
+        IF COALESCE((_key->>'case_sensitive')::boolean, false) THEN
+          IF btrim(_response #>> '{}') = btrim(_accepted) THEN
+            RETURN 1;
+          END IF;
+        ELSIF lower(btrim(_response #>> '{}')) = lower(btrim(_accepted)) THEN
+          RETURN 1;
+        END IF;
+      END LOOP;
+      RETURN 0;
+
+    WHEN 'matching' THEN
+      IF jsonb_typeof(_response) IS DISTINCT FROM 'array' OR COALESCE(jsonb_array_length(_key->'matches'), 0) = 0 THEN
+        RETURN 0;
+      END IF;
+      -- Credit per correctly matched prompt
+      SELECT count(*) INTO _hits
+      FROM jsonb_array_elements(_key->'matches') WITH ORDINALITY m(value, idx)
+      WHERE m.value = _response->(m.idx::integer - 1);
+      RETURN _hits::numeric / jsonb_array_length(_key->'matches');
+
+    ELSE
+      RETURN 0;
+  END CASE;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.score_answer(public.questions, text, jsonb) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+  _total_marks integer;
+  _score numeric;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _attempt.status <> 'in_progress' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.student_answers sa
+  SET marks_awarded = round(public.score_answer(q, sa.selected_answer, sa.response) * q.marks, 2),
+      is_correct = public.score_answer(q, sa.selected_answer, sa.response) = 1
+  FROM public.questions q
+  WHERE sa.attempt_id = _attempt_id
+    AND q.id = sa.question_id;
+
+  -- Only the latest answer per question counts
+  SELECT COALESCE(SUM(latest.marks_awarded), 0) INTO _score
+  FROM (
+    SELECT DISTINCT ON (sa.question_id) sa.marks_awarded
+    FROM public.student_answers sa
+    WHERE sa.attempt_id = _attempt_id
+    ORDER BY sa.question_id, sa.created_at DESC
+  ) latest;
+
+  SELECT total_marks INTO _total_marks
+  FROM public.exams
+  WHERE id = _attempt.exam_id;
+
+  UPDATE public.exam_attempts
+  SET status = 'completed',
+      score = _score,
+      total_marks = _total_marks,
+      percentage = CASE WHEN _total_marks > 0 THEN round(_score * 100.0 / _total_marks, 2) ELSE 0 END,
+      completed_at = LEAST(now(), COALESCE(_attempt.deadline_at, now()))
+  WHERE id = _attempt_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.enforce_attempt_deadline()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+BEGIN
+  -- Grading only touches is_correct/marks_awarded and must keep working after the deadline
+  IF TG_OP = 'UPDATE'
+    AND NEW.selected_answer IS NOT DISTINCT FROM OLD.selected_answer
+    AND NEW.response IS NOT DISTINCT FROM OLD.response THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = NEW.attempt_id;
+
+  IF _attempt.status <> 'in_progress' OR _attempt.deadline_at <= now() THEN
+    RAISE EXCEPTION 'Exam time is over; answers can no longer be changed' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Students need the type and option payload, never answer_key
+DROP FUNCTION public.get_exam_questions(uuid);
+
+CREATE FUNCTION public.get_exam_questions(_exam_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_type text,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  options jsonb,
+  marks integer,
+  order_number integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  -- Students only see questions while they have an attempt open on the exam
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.exam_attempts ea
+    WHERE ea.exam_id = _exam_id
+      AND ea.student_id = auth.uid()
+      AND ea.status = 'in_progress'
+  ) THEN
+    RAISE EXCEPTION 'No exam attempt in progress' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.question_type, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d,
+         q.options, q.marks, q.order_number
+  FROM public.questions q
+  WHERE q.exam_id = _exam_id
+  ORDER BY q.order_number;
+END;
+$function$;
@@ -0,0 +1,170 @@
+-- Essay questions, graded by hand. answer_key optionally holds {"rubric": "..."} for graders.
+ALTER TABLE public.questions DROP CONSTRAINT questions_question_type_check;
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_question_type_check
+    CHECK (question_type IN ('mcq', 'true_false', 'multi_select', 'numeric', 'short_text', 'matching', 'essay'));
+
+ALTER TABLE public.student_answers
+  ADD COLUMN answer_text text,
+  ADD COLUMN feedback text,
+  ADD COLUMN graded_by uuid REFERENCES public.profiles(id),
+  ADD COLUMN graded_at timestamptz;
+
+GRANT INSERT (answer_text) ON public.student_answers TO authenticated;
+GRANT UPDATE (answer_text) ON public.student_answers TO authenticated;
+
+-- Recompute score and status from the latest answer per question. Attempts with
+-- essay answers still awaiting marks stay in 'pending_review'.
+CREATE OR REPLACE FUNCTION public.refresh_attempt_score(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _total_marks integer;
+  _score numeric;
+  _pending boolean;
+BEGIN
+  SELECT COALESCE(SUM(latest.marks_awarded), 0),
+         COALESCE(bool_or(latest.question_type = 'essay' AND latest.marks_awarded IS NULL), false)
+  INTO _score, _pending
+  FROM (
+    SELECT DISTINCT ON (sa.question_id) sa.marks_awarded, q.question_type
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = _attempt_id
+    ORDER BY sa.question_id, sa.created_at DESC
+  ) latest;
+
+  SELECT e.total_marks INTO _total_marks
+  FROM public.exams e
+  JOIN public.exam_attempts ea ON ea.exam_id = e.id
+  WHERE ea.id = _attempt_id;
+
+  UPDATE public.exam_attempts
+  SET status = CASE WHEN _pending THEN 'pending_review' ELSE 'completed' END,
+      score = _score,
+      total_marks = _total_marks,
+      percentage = CASE WHEN _total_marks > 0 THEN round(_score * 100.0 / _total_marks, 2) ELSE 0 END
+  WHERE id = _attempt_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_attempt_score(uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _attempt.status <> 'in_progress' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.student_answers sa
+  SET marks_awarded = round(public.score_answer(q, sa.selected_answer, sa.response) * q.marks, 2),
+      is_correct = public.score_answer(q, sa.selected_answer, sa.response) = 1
+  FROM public.questions q
+  WHERE sa.attempt_id = _attempt_id
+    AND q.id = sa.question_id
+    AND q.question_type <> 'essay';
+
+  -- Blank essays need no review
+  UPDATE public.student_answers sa
+  SET marks_awarded = 0,
+      is_correct = false
+  FROM public.questions q
+  WHERE sa.attempt_id = _attempt_id
+    AND q.id = sa.question_id
+    AND q.question_type = 'essay'
+    AND COALESCE(btrim(sa.answer_text), '') = '';
+
+  UPDATE public.exam_attempts
+  SET completed_at = LEAST(now(), COALESCE(_attempt.deadline_at, now()))
+  WHERE id = _attempt_id;
+
+  PERFORM public.refresh_attempt_score(_attempt_id);
+END;
+$function$;
+
+-- Instructor marks for one essay answer; finalizes the attempt once nothing is left to grade
+CREATE OR REPLACE FUNCTION public.grade_essay_answer(_answer_id uuid, _marks numeric, _feedback text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt_id uuid;
+  _max_marks integer;
+BEGIN
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can grade answers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT sa.attempt_id, q.marks INTO _attempt_id, _max_marks
+  FROM public.student_answers sa
+  JOIN public.questions q ON q.id = sa.question_id
+  JOIN public.exam_attempts ea ON ea.id = sa.attempt_id
+  WHERE sa.id = _answer_id
+    AND q.question_type = 'essay'
+    AND ea.status IN ('pending_review', 'completed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Essay answer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _marks < 0 OR _marks > _max_marks THEN
+    RAISE EXCEPTION 'Marks must be between 0 and %', _max_marks USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.student_answers
+  SET marks_awarded = _marks,
+      is_correct = _marks = _max_marks,
+      feedback = NULLIF(btrim(_feedback), ''),
+      graded_by = auth.uid(),
+      graded_at = now()
+  WHERE id = _answer_id;
+
+  PERFORM public.refresh_attempt_score(_attempt_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.enforce_attempt_deadline()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+BEGIN
+  -- Grading only touches marks and feedback and must keep working after the deadline
+  IF TG_OP = 'UPDATE'
+    AND NEW.selected_answer IS NOT DISTINCT FROM OLD.selected_answer
+    AND NEW.response IS NOT DISTINCT FROM OLD.response
+    AND NEW.answer_text IS NOT DISTINCT FROM OLD.answer_text THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = NEW.attempt_id;
+
+  IF _attempt.status <> 'in_progress' OR _attempt.deadline_at <= now() THEN
+    RAISE EXCEPTION 'Exam time is over; answers can no longer be changed' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,172 @@
+-- Subject-scoped question bank: questions belong to a subject and are linked into
+-- exams through exam_questions, which carries the per-exam marks and order.
+-- questions.marks remains as the default when a bank question is added to an exam.
+ALTER TABLE public.questions
+  ADD COLUMN subject_id uuid REFERENCES public.subjects(id) ON DELETE CASCADE,
+  ADD COLUMN tags text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN difficulty text,
+  ADD COLUMN created_by uuid REFERENCES public.profiles(id),
+  ADD CONSTRAINT questions_difficulty_check CHECK (difficulty IN ('easy', 'medium', 'hard'));
+
+UPDATE public.questions q
+SET subject_id = e.subject_id,
+    created_by = e.created_by
+FROM public.exams e
+WHERE e.id = q.exam_id;
+
+CREATE INDEX questions_subject_id_idx ON public.questions (subject_id);
+CREATE INDEX questions_tags_idx ON public.questions USING gin (tags);
+
+CREATE TABLE public.exam_questions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id uuid NOT NULL REFERENCES public.exams(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  marks integer NOT NULL DEFAULT 1,
+  order_number integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (exam_id, question_id)
+);
+
+INSERT INTO public.exam_questions (exam_id, question_id, marks, order_number)
+SELECT exam_id, id, marks, COALESCE(order_number, 1)
+FROM public.questions
+WHERE exam_id IS NOT NULL;
+
+ALTER TABLE public.exam_questions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage exam questions"
+ON public.exam_questions
+FOR ALL
+USING (public.get_current_user_role() = 'admin');
+
+ALTER TABLE public.questions
+  DROP COLUMN exam_id,
+  DROP COLUMN order_number;
+
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _attempt.status <> 'in_progress' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.student_answers sa
+  SET marks_awarded = round(public.score_answer(q, sa.selected_answer, sa.response) * eq.marks, 2),
+      is_correct = public.score_answer(q, sa.selected_answer, sa.response) = 1
+  FROM public.questions q
+  JOIN public.exam_questions eq ON eq.question_id = q.id
+  WHERE sa.attempt_id = _attempt_id
+    AND q.id = sa.question_id
+    AND eq.exam_id = _attempt.exam_id
+    AND q.question_type <> 'essay';
+
+  -- Blank essays need no review
+  UPDATE public.student_answers sa
+  SET marks_awarded = 0,
+      is_correct = false
+  FROM public.questions q
+  WHERE sa.attempt_id = _attempt_id
+    AND q.id = sa.question_id
+    AND q.question_type = 'essay'
+    AND COALESCE(btrim(sa.answer_text), '') = '';
+
+  UPDATE public.exam_attempts
+  SET completed_at = LEAST(now(), COALESCE(_attempt.deadline_at, now()))
+  WHERE id = _attempt_id;
+
+  PERFORM public.refresh_attempt_score(_attempt_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.grade_essay_answer(_answer_id uuid, _marks numeric, _feedback text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt_id uuid;
+  _max_marks integer;
+BEGIN
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can grade answers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT sa.attempt_id, eq.marks INTO _attempt_id, _max_marks
+  FROM public.student_answers sa
+  JOIN public.questions q ON q.id = sa.question_id
+  JOIN public.exam_attempts ea ON ea.id = sa.attempt_id
+  JOIN public.exam_questions eq ON eq.exam_id = ea.exam_id AND eq.question_id = q.id
+  WHERE sa.id = _answer_id
+    AND q.question_type = 'essay'
+    AND ea.status IN ('pending_review', 'completed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Essay answer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _marks < 0 OR _marks > _max_marks THEN
+    RAISE EXCEPTION 'Marks must be between 0 and %', _max_marks USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.student_answers
+  SET marks_awarded = _marks,
+      is_correct = _marks = _max_marks,
+      feedback = NULLIF(btrim(_feedback), ''),
+      graded_by = auth.uid(),
+      graded_at = now()
+  WHERE id = _answer_id;
+
+  PERFORM public.refresh_attempt_score(_attempt_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_exam_questions(_exam_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_type text,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  options jsonb,
+  marks integer,
+  order_number integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  -- Students only see questions while they have an attempt open on the exam
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.exam_attempts ea
+    WHERE ea.exam_id = _exam_id
+      AND ea.student_id = auth.uid()
+      AND ea.status = 'in_progress'
+  ) THEN
+    RAISE EXCEPTION 'No exam attempt in progress' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.question_type, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d,
+         q.options, eq.marks, eq.order_number
+  FROM public.exam_questions eq
+  JOIN public.questions q ON q.id = eq.question_id
+  WHERE eq.exam_id = _exam_id
+  ORDER BY eq.order_number;
+END;
+$function$;
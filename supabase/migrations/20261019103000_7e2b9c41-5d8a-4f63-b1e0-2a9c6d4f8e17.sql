@@ -0,0 +1,320 @@
+-- Exam blueprints: each rule draws a number of random questions from the subject's bank,
+-- optionally narrowed by topic tag and difficulty. Rules are resolved once per attempt.
+CREATE TABLE public.exam_blueprint_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id uuid NOT NULL REFERENCES public.exams(id) ON DELETE CASCADE,
+  tag text,
+  difficulty text CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  question_count integer NOT NULL CHECK (question_count > 0),
+  marks integer CHECK (marks > 0),
+  order_number integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE public.exam_blueprint_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage blueprint rules"
+ON public.exam_blueprint_rules
+FOR ALL
+USING (public.get_current_user_role() = 'admin');
+
+-- The question set a single attempt was given, with the marks and order it was given in
+CREATE TABLE public.attempt_questions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id uuid NOT NULL REFERENCES public.exam_attempts(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  marks integer NOT NULL,
+  order_number integer NOT NULL,
+  UNIQUE (attempt_id, question_id)
+);
+
+CREATE INDEX attempt_questions_attempt_id_idx ON public.attempt_questions (attempt_id, order_number);
+
+ALTER TABLE public.attempt_questions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view attempt questions"
+ON public.attempt_questions
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Students can view their own attempt questions"
+ON public.attempt_questions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.exam_attempts ea
+  WHERE ea.id = attempt_id AND ea.student_id = auth.uid()
+));
+
+INSERT INTO public.attempt_questions (attempt_id, question_id, marks, order_number)
+SELECT ea.id, eq.question_id, eq.marks, eq.order_number
+FROM public.exam_attempts ea
+JOIN public.exam_questions eq ON eq.exam_id = ea.exam_id;
+
+-- total_marks is filled in from the drawn questions once the attempt is created
+ALTER TABLE public.exam_attempts ALTER COLUMN total_marks SET DEFAULT 0;
+
+-- Fixed questions come first in their configured order, then each rule's draw in rule order
+CREATE OR REPLACE FUNCTION public.assign_attempt_questions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _subject_id uuid;
+  _rule public.exam_blueprint_rules;
+  _position integer;
+BEGIN
+  SELECT subject_id INTO _subject_id
+  FROM public.exams
+  WHERE id = NEW.exam_id;
+
+  INSERT INTO public.attempt_questions (attempt_id, question_id, marks, order_number)
+  SELECT NEW.id, eq.question_id, eq.marks, row_number() OVER (ORDER BY eq.order_number, eq.created_at)
+  FROM public.exam_questions eq
+  WHERE eq.exam_id = NEW.exam_id;
+
+  FOR _rule IN
+    SELECT * FROM public.exam_blueprint_rules
+    WHERE exam_id = NEW.exam_id
+    ORDER BY order_number, created_at
+  LOOP
+    SELECT COALESCE(MAX(order_number), 0) INTO _position
+    FROM public.attempt_questions
+    WHERE attempt_id = NEW.id;
+
+    INSERT INTO public.attempt_questions (attempt_id, question_id, marks, order_number)
+    SELECT NEW.id, drawn.id, COALESCE(_rule.marks, drawn.marks), _position + row_number() OVER ()
+    FROM (
+      SELECT q.id, q.marks
+      FROM public.questions q
+      WHERE q.subject_id = _subject_id
+        AND (_rule.tag IS NULL OR _rule.tag = ANY (q.tags))
+        AND (_rule.difficulty IS NULL OR q.difficulty = _rule.difficulty)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.attempt_questions aq
+          WHERE aq.attempt_id = NEW.id AND aq.question_id = q.id
+        )
+      ORDER BY random()
+      LIMIT _rule.question_count
+    ) drawn;
+  END LOOP;
+
+  UPDATE public.exam_attempts
+  SET total_marks = (
+    SELECT COALESCE(SUM(marks), 0)
+    FROM public.attempt_questions
+    WHERE attempt_id = NEW.id
+  )
+  WHERE id = NEW.id;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER assign_attempt_questions
+  AFTER INSERT ON public.exam_attempts
+  FOR EACH ROW EXECUTE FUNCTION public.assign_attempt_questions();
+
+-- Answers are only accepted for questions drawn into the attempt
+CREATE OR REPLACE FUNCTION public.enforce_attempt_deadline()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+BEGIN
+  -- Grading only touches marks and feedback and must keep working after the deadline
+  IF TG_OP = 'UPDATE'
+    AND NEW.selected_answer IS NOT DISTINCT FROM OLD.selected_answer
+    AND NEW.response IS NOT DISTINCT FROM OLD.response
+    AND NEW.answer_text IS NOT DISTINCT FROM OLD.answer_text THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = NEW.attempt_id;
+
+  IF _attempt.status <> 'in_progress' OR _attempt.deadline_at <= now() THEN
+    RAISE EXCEPTION 'Exam time is over; answers can no longer be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.attempt_questions
+    WHERE attempt_id = NEW.attempt_id AND question_id = NEW.question_id
+  ) THEN
+    RAISE EXCEPTION 'Question is not part of this attempt' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.refresh_attempt_score(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _total_marks integer;
+  _score numeric;
+  _pending boolean;
+BEGIN
+  SELECT COALESCE(SUM(latest.marks_awarded), 0),
+         COALESCE(bool_or(latest.question_type = 'essay' AND latest.marks_awarded IS NULL), false)
+  INTO _score, _pending
+  FROM (
+    SELECT DISTINCT ON (sa.question_id) sa.marks_awarded, q.question_type
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = _attempt_id
+    ORDER BY sa.question_id, sa.created_at DESC
+  ) latest;
+
+  SELECT COALESCE(SUM(marks), 0) INTO _total_marks
+  FROM public.attempt_questions
+  WHERE attempt_id = _attempt_id;
+
+  UPDATE public.exam_attempts
+  SET status = CASE WHEN _pending THEN 'pending_review' ELSE 'completed' END,
+      score = _score,
+      total_marks = _total_marks,
+      percentage = CASE WHEN _total_marks > 0 THEN round(_score * 100.0 / _total_marks, 2) ELSE 0 END
+  WHERE id = _attempt_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _attempt.status <> 'in_progress' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.student_answers sa
+  SET marks_awarded = round(public.score_answer(q, sa.selected_answer, sa.response) * aq.marks, 2),
+      is_correct = public.score_answer(q, sa.selected_answer, sa.response) = 1
+  FROM public.questions q
+  JOIN public.attempt_questions aq ON aq.question_id = q.id
+  WHERE sa.attempt_id = _attempt_id
+    AND q.id = sa.question_id
+    AND aq.attempt_id = _attempt_id
+    AND q.question_type <> 'essay';
+
+  -- Blank essays need no review
+  UPDATE public.student_answers sa
+  SET marks_awarded = 0,
+      is_correct = false
+  FROM public.questions q
+  WHERE sa.attempt_id = _attempt_id
+    AND q.id = sa.question_id
+    AND q.question_type = 'essay'
+    AND COALESCE(btrim(sa.answer_text), '') = '';
+
+  UPDATE public.exam_attempts
+  SET completed_at = LEAST(now(), COALESCE(_attempt.deadline_at, now()))
+  WHERE id = _attempt_id;
+
+  PERFORM public.refresh_attempt_score(_attempt_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.grade_essay_answer(_answer_id uuid, _marks numeric, _feedback text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt_id uuid;
+  _max_marks integer;
+BEGIN
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can grade answers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT sa.attempt_id, aq.marks INTO _attempt_id, _max_marks
+  FROM public.student_answers sa
+  JOIN public.questions q ON q.id = sa.question_id
+  JOIN public.exam_attempts ea ON ea.id = sa.attempt_id
+  JOIN public.attempt_questions aq ON aq.attempt_id = sa.attempt_id AND aq.question_id = q.id
+  WHERE sa.id = _answer_id
+    AND q.question_type = 'essay'
+    AND ea.status IN ('pending_review', 'completed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Essay answer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _marks < 0 OR _marks > _max_marks THEN
+    RAISE EXCEPTION 'Marks must be between 0 and %', _max_marks USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.student_answers
+  SET marks_awarded = _marks,
+      is_correct = _marks = _max_marks,
+      feedback = NULLIF(btrim(_feedback), ''),
+      graded_by = auth.uid(),
+      graded_at = now()
+  WHERE id = _answer_id;
+
+  PERFORM public.refresh_attempt_score(_attempt_id);
+END;
+$function$;
+
+-- Questions are served per attempt so a resumed attempt shows the same drawn set
+DROP FUNCTION public.get_exam_questions(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_attempt_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_type text,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  options jsonb,
+  marks integer,
+  order_number integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  -- Students only see questions while their attempt is open
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.exam_attempts ea
+    WHERE ea.id = _attempt_id
+      AND ea.student_id = auth.uid()
+      AND ea.status = 'in_progress'
+  ) THEN
+    RAISE EXCEPTION 'No exam attempt in progress' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.question_type, q.question_text, q.option_a, q.option_b, q.option_c, q.option_d,
+         q.options, aq.marks, aq.order_number
+  FROM public.attempt_questions aq
+  JOIN public.questions q ON q.id = aq.question_id
+  WHERE aq.attempt_id = _attempt_id
+  ORDER BY aq.order_number;
+END;
+$function$;
@@ -0,0 +1,207 @@
+-- Per-exam shuffling, applied once when an attempt is created and kept on attempt_questions
+-- so a resumed attempt shows the same layout
+ALTER TABLE public.exams
+  ADD COLUMN shuffle_questions boolean NOT NULL DEFAULT false,
+  ADD COLUMN shuffle_options boolean NOT NULL DEFAULT false;
+
+-- option_order[n] is the canonical letter shown in display position n; NULL means unshuffled
+ALTER TABLE public.attempt_questions
+  ADD COLUMN option_order text[];
+
+CREATE OR REPLACE FUNCTION public.shuffled_option_letters()
+RETURNS text[]
+LANGUAGE sql
+VOLATILE
+AS $function$
+  SELECT array_agg(letter ORDER BY random())
+  FROM unnest(ARRAY['A', 'B', 'C', 'D']) AS letter;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.shuffled_option(_question public.questions, _option_order text[], _position integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT (ARRAY[_question.option_a, _question.option_b, _question.option_c, _question.option_d])[
+    ascii(COALESCE(_option_order[_position], chr(64 + _position))) - 64
+  ];
+$function$;
+
+-- Maps the letter a student picked in display order back to the canonical letter
+CREATE OR REPLACE FUNCTION public.unshuffle_answer(_option_order text[], _selected_answer text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT CASE
+    WHEN _option_order IS NULL OR _selected_answer IS NULL THEN _selected_answer
+    ELSE _option_order[ascii(_selected_answer) - 64]
+  END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.assign_attempt_questions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _exam public.exams;
+  _rule public.exam_blueprint_rules;
+  _position integer;
+BEGIN
+  SELECT * INTO _exam
+  FROM public.exams
+  WHERE id = NEW.exam_id;
+
+  INSERT INTO public.attempt_questions (attempt_id, question_id, marks, order_number)
+  SELECT NEW.id, eq.question_id, eq.marks, row_number() OVER (ORDER BY eq.order_number, eq.created_at)
+  FROM public.exam_questions eq
+  WHERE eq.exam_id = NEW.exam_id;
+
+  FOR _rule IN
+    SELECT * FROM public.exam_blueprint_rules
+    WHERE exam_id = NEW.exam_id
+    ORDER BY order_number, created_at
+  LOOP
+    SELECT COALESCE(MAX(order_number), 0) INTO _position
+    FROM public.attempt_questions
+    WHERE attempt_id = NEW.id;
+
+    INSERT INTO public.attempt_questions (attempt_id, question_id, marks, order_number)
+    SELECT NEW.id, drawn.id, COALESCE(_rule.marks, drawn.marks), _position + row_number() OVER ()
+    FROM (
+      SELECT q.id, q.marks
+      FROM public.questions q
+      WHERE q.subject_id = _exam.subject_id
+        AND (_rule.tag IS NULL OR _rule.tag = ANY (q.tags))
+        AND (_rule.difficulty IS NULL OR q.difficulty = _rule.difficulty)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.attempt_questions aq
+          WHERE aq.attempt_id = NEW.id AND aq.question_id = q.id
+        )
+      ORDER BY random()
+      LIMIT _rule.question_count
+    ) drawn;
+  END LOOP;
+
+  IF _exam.shuffle_questions THEN
+    UPDATE public.attempt_questions aq
+    SET order_number = shuffled.position
+    FROM (
+      SELECT id, row_number() OVER (ORDER BY random()) AS position
+      FROM public.attempt_questions
+      WHERE attempt_id = NEW.id
+    ) shuffled
+    WHERE aq.id = shuffled.id;
+  END IF;
+
+  IF _exam.shuffle_options THEN
+    UPDATE public.attempt_questions aq
+    SET option_order = public.shuffled_option_letters()
+    FROM public.questions q
+    WHERE aq.attempt_id = NEW.id
+      AND q.id = aq.question_id
+      AND q.question_type = 'mcq';
+  END IF;
+
+  UPDATE public.exam_attempts
+  SET total_marks = (
+    SELECT COALESCE(SUM(marks), 0)
+    FROM public.attempt_questions
+    WHERE attempt_id = NEW.id
+  )
+  WHERE id = NEW.id;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.grade_attempt(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _attempt.status <> 'in_progress' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.student_answers sa
+  SET marks_awarded = round(public.score_answer(q, public.unshuffle_answer(aq.option_order, sa.selected_answer), sa.response) * aq.marks, 2),
+      is_correct = public.score_answer(q, public.unshuffle_answer(aq.option_order, sa.selected_answer), sa.response) = 1
+  FROM public.questions q
+  JOIN public.attempt_questions aq ON aq.question_id = q.id
+  WHERE sa.attempt_id = _attempt_id
+    AND q.id = sa.question_id
+    AND aq.attempt_id = _attempt_id
+    AND q.question_type <> 'essay';
+
+  -- Blank essays need no review
+  UPDATE public.student_answers sa
+  SET marks_awarded = 0,
+      is_correct = false
+  FROM public.questions q
+  WHERE sa.attempt_id = _attempt_id
+    AND q.id = sa.question_id
+    AND q.question_type = 'essay'
+    AND COALESCE(btrim(sa.answer_text), '') = '';
+
+  UPDATE public.exam_attempts
+  SET completed_at = LEAST(now(), COALESCE(_attempt.deadline_at, now()))
+  WHERE id = _attempt_id;
+
+  PERFORM public.refresh_attempt_score(_attempt_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_attempt_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_type text,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  options jsonb,
+  marks integer,
+  order_number integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  -- Students only see questions while their attempt is open
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' AND NOT EXISTS (
+    SELECT 1 FROM public.exam_attempts ea
+    WHERE ea.id = _attempt_id
+      AND ea.student_id = auth.uid()
+      AND ea.status = 'in_progress'
+  ) THEN
+    RAISE EXCEPTION 'No exam attempt in progress' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.question_type, q.question_text,
+         public.shuffled_option(q, aq.option_order, 1),
+         public.shuffled_option(q, aq.option_order, 2),
+         public.shuffled_option(q, aq.option_order, 3),
+         public.shuffled_option(q, aq.option_order, 4),
+         q.options, aq.marks, aq.order_number
+  FROM public.attempt_questions aq
+  JOIN public.questions q ON q.id = aq.question_id
+  WHERE aq.attempt_id = _attempt_id
+  ORDER BY aq.order_number;
+END;
+$function$;
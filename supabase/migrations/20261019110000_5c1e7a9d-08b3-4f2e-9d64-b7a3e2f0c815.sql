@@ -0,0 +1,60 @@
+-- Availability windows. Either bound may be left open; timezone is the zone the
+-- window was scheduled in and is only used for display.
+ALTER TABLE public.exams
+  ADD COLUMN opens_at timestamptz,
+  ADD COLUMN closes_at timestamptz,
+  ADD COLUMN timezone text NOT NULL DEFAULT 'UTC',
+  ADD CONSTRAINT exams_window_check CHECK (opens_at IS NULL OR closes_at IS NULL OR closes_at > opens_at);
+
+CREATE OR REPLACE FUNCTION public.is_exam_open(_exam_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.exams
+    WHERE id = _exam_id
+      AND is_active
+      AND (opens_at IS NULL OR opens_at <= now())
+      AND (closes_at IS NULL OR closes_at > now())
+  );
+$function$;
+
+-- Backstop for any client that skips the trigger's friendlier error
+CREATE POLICY "Attempts can only start while the exam is open"
+ON public.exam_attempts
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (public.is_exam_open(exam_id));
+
+-- Late starters get the time left until the exam closes, not the full duration
+CREATE OR REPLACE FUNCTION public.set_attempt_deadline()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _exam public.exams;
+BEGIN
+  SELECT * INTO _exam
+  FROM public.exams
+  WHERE id = NEW.exam_id;
+
+  IF NOT public.is_exam_open(NEW.exam_id) THEN
+    IF _exam.opens_at > now() THEN
+      RAISE EXCEPTION 'This exam opens at %', _exam.opens_at USING ERRCODE = '42501';
+    END IF;
+    RAISE EXCEPTION 'This exam is not open' USING ERRCODE = '42501';
+  END IF;
+
+  NEW.started_at := now();
+  NEW.deadline_at := LEAST(
+    now() + make_interval(mins => COALESCE(_exam.duration_minutes, 0)),
+    COALESCE(_exam.closes_at, 'infinity')
+  );
+  RETURN NEW;
+END;
+$function$;
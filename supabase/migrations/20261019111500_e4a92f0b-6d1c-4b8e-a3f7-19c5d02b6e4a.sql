@@ -0,0 +1,55 @@
+-- Retake rules: max_attempts NULL means unlimited; the cooldown runs from the end of the
+-- previous attempt. grading_policy picks which attempt's score counts for the exam.
+ALTER TABLE public.exams
+  ADD COLUMN max_attempts integer CHECK (max_attempts > 0),
+  ADD COLUMN attempt_cooldown_minutes integer NOT NULL DEFAULT 0 CHECK (attempt_cooldown_minutes >= 0),
+  ADD COLUMN grading_policy text NOT NULL DEFAULT 'highest',
+  ADD CONSTRAINT exams_grading_policy_check CHECK (grading_policy IN ('highest', 'latest', 'average', 'first'));
+
+CREATE INDEX IF NOT EXISTS exam_attempts_student_exam_idx ON public.exam_attempts (student_id, exam_id);
+
+CREATE OR REPLACE FUNCTION public.enforce_attempt_policy()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _exam public.exams;
+  _attempts integer;
+  _in_progress boolean;
+  _last_completed timestamptz;
+BEGIN
+  SELECT * INTO _exam
+  FROM public.exams
+  WHERE id = NEW.exam_id;
+
+  -- Serialize starts per student and exam so two tabs can't both slip under the limit
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.student_id::text || NEW.exam_id::text));
+
+  SELECT COUNT(*), COALESCE(bool_or(status = 'in_progress'), false), MAX(completed_at)
+  INTO _attempts, _in_progress, _last_completed
+  FROM public.exam_attempts
+  WHERE exam_id = NEW.exam_id
+    AND student_id = NEW.student_id;
+
+  IF _in_progress THEN
+    RAISE EXCEPTION 'An attempt at this exam is already in progress' USING ERRCODE = '42501';
+  END IF;
+
+  IF _exam.max_attempts IS NOT NULL AND _attempts >= _exam.max_attempts THEN
+    RAISE EXCEPTION 'No attempts left for this exam (limit %)', _exam.max_attempts USING ERRCODE = '42501';
+  END IF;
+
+  IF _last_completed + make_interval(mins => _exam.attempt_cooldown_minutes) > now() THEN
+    RAISE EXCEPTION 'The next attempt can start at %',
+      _last_completed + make_interval(mins => _exam.attempt_cooldown_minutes) USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_attempt_policy
+  BEFORE INSERT ON public.exam_attempts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_attempt_policy();
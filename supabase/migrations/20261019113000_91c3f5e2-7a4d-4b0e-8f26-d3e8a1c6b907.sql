@@ -0,0 +1,106 @@
+-- Optional worked explanation shown to students when they review an attempt
+ALTER TABLE public.questions
+  ADD COLUMN explanation text;
+
+-- When students may see correct answers: as soon as they submit, once the exam's
+-- close date has passed (so early finishers can't leak the key), or never
+ALTER TABLE public.exams
+  ADD COLUMN review_policy text NOT NULL DEFAULT 'immediately',
+  ADD CONSTRAINT exams_review_policy_check CHECK (review_policy IN ('immediately', 'after_close', 'never'));
+
+-- Inverse of unshuffle_answer: the letter a canonical option is displayed under
+CREATE OR REPLACE FUNCTION public.shuffle_answer(_option_order text[], _answer text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT CASE
+    WHEN _option_order IS NULL OR _answer IS NULL THEN _answer
+    ELSE chr(64 + array_position(_option_order, _answer))
+  END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.is_review_released(_exam_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.exams
+    WHERE id = _exam_id
+      AND (review_policy = 'immediately'
+        OR (review_policy = 'after_close' AND closes_at IS NOT NULL AND closes_at <= now()))
+  );
+$function$;
+
+-- Per-question breakdown of a submitted attempt, with options and the correct
+-- answer in the order the student saw them
+CREATE OR REPLACE FUNCTION public.get_attempt_review(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_type text,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  options jsonb,
+  correct_answer text,
+  answer_key jsonb,
+  explanation text,
+  marks integer,
+  order_number integer,
+  selected_answer text,
+  response jsonb,
+  answer_text text,
+  is_correct boolean,
+  marks_awarded numeric,
+  feedback text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE exam_attempts.id = _attempt_id;
+
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' THEN
+    IF NOT FOUND OR _attempt.student_id IS DISTINCT FROM auth.uid() OR _attempt.status = 'in_progress' THEN
+      RAISE EXCEPTION 'No submitted attempt to review' USING ERRCODE = '42501';
+    END IF;
+    IF NOT public.is_review_released(_attempt.exam_id) THEN
+      RAISE EXCEPTION 'Answers for this exam have not been released' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.question_type, q.question_text,
+         public.shuffled_option(q, aq.option_order, 1),
+         public.shuffled_option(q, aq.option_order, 2),
+         public.shuffled_option(q, aq.option_order, 3),
+         public.shuffled_option(q, aq.option_order, 4),
+         q.options,
+         public.shuffle_answer(aq.option_order, q.correct_answer),
+         -- Essay rubrics are grader notes, not part of the answer
+         CASE WHEN q.question_type = 'essay' THEN NULL ELSE q.answer_key END,
+         q.explanation, aq.marks, aq.order_number,
+         sa.selected_answer, sa.response, sa.answer_text, sa.is_correct, sa.marks_awarded, sa.feedback
+  FROM public.attempt_questions aq
+  JOIN public.questions q ON q.id = aq.question_id
+  LEFT JOIN (
+    SELECT DISTINCT ON (student_answers.question_id) student_answers.*
+    FROM public.student_answers
+    WHERE student_answers.attempt_id = _attempt_id
+    ORDER BY student_answers.question_id, student_answers.created_at DESC
+  ) sa ON sa.question_id = aq.question_id
+  WHERE aq.attempt_id = _attempt_id
+  ORDER BY aq.order_number;
+END;
+$function$;
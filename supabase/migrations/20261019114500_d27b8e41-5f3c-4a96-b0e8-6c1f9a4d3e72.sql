@@ -0,0 +1,114 @@
+-- Pass/fail is decided when an attempt is graded and stays NULL while essays await marks.
+-- Passing attempts get a certificate code that anyone can check at /verify/:code.
+ALTER TABLE public.exam_attempts
+  ADD COLUMN passed boolean,
+  ADD COLUMN certificate_code text UNIQUE;
+
+-- Twelve hex digits in groups of four, e.g. 3F9A-0C21-B7E4
+CREATE OR REPLACE FUNCTION public.generate_certificate_code()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+AS $function$
+  SELECT regexp_replace(upper(substr(md5(gen_random_uuid()::text), 1, 12)), '(.{4})(.{4})(.{4})', '\1-\2-\3');
+$function$;
+
+-- passing_marks is set against the exam's nominal total; attempts drawn from pools can
+-- carry a different total, so the pass mark is applied as a proportion
+CREATE OR REPLACE FUNCTION public.refresh_attempt_score(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _total_marks integer;
+  _score numeric;
+  _pending boolean;
+  _exam public.exams;
+  _passed boolean;
+BEGIN
+  SELECT COALESCE(SUM(latest.marks_awarded), 0),
+         COALESCE(bool_or(latest.question_type = 'essay' AND latest.marks_awarded IS NULL), false)
+  INTO _score, _pending
+  FROM (
+    SELECT DISTINCT ON (sa.question_id) sa.marks_awarded, q.question_type
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = _attempt_id
+    ORDER BY sa.question_id, sa.created_at DESC
+  ) latest;
+
+  SELECT COALESCE(SUM(marks), 0) INTO _total_marks
+  FROM public.attempt_questions
+  WHERE attempt_id = _attempt_id;
+
+  SELECT e.* INTO _exam
+  FROM public.exams e
+  JOIN public.exam_attempts ea ON ea.exam_id = e.id
+  WHERE ea.id = _attempt_id;
+
+  IF NOT _pending THEN
+    _passed := CASE
+      WHEN _exam.total_marks > 0 THEN _score * _exam.total_marks >= _exam.passing_marks * _total_marks
+      ELSE _score >= _exam.passing_marks
+    END;
+  END IF;
+
+  -- A code once issued is kept so printed certificates stay valid after a regrade
+  -- that still passes; verification also requires passed to be true
+  UPDATE public.exam_attempts
+  SET status = CASE WHEN _pending THEN 'pending_review' ELSE 'completed' END,
+      score = _score,
+      total_marks = _total_marks,
+      percentage = CASE WHEN _total_marks > 0 THEN round(_score * 100.0 / _total_marks, 2) ELSE 0 END,
+      passed = _passed,
+      certificate_code = CASE
+        WHEN _passed THEN COALESCE(certificate_code, public.generate_certificate_code())
+        ELSE certificate_code
+      END
+  WHERE id = _attempt_id;
+END;
+$function$;
+
+-- Backfill attempts graded before pass/fail was recorded
+UPDATE public.exam_attempts ea
+SET passed = CASE
+  WHEN e.total_marks > 0 THEN COALESCE(ea.score, 0) * e.total_marks >= e.passing_marks * ea.total_marks
+  ELSE COALESCE(ea.score, 0) >= e.passing_marks
+END
+FROM public.exams e
+WHERE e.id = ea.exam_id
+  AND ea.status = 'completed';
+
+UPDATE public.exam_attempts
+SET certificate_code = public.generate_certificate_code()
+WHERE passed AND certificate_code IS NULL;
+
+-- Public lookup for the verification page; only passing attempts are confirmed
+CREATE OR REPLACE FUNCTION public.verify_certificate(_code text)
+RETURNS TABLE (
+  certificate_code text,
+  student_name text,
+  exam_title text,
+  subject_name text,
+  score numeric,
+  total_marks integer,
+  percentage numeric,
+  completed_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT ea.certificate_code, p.full_name, e.title, s.name, ea.score, ea.total_marks, ea.percentage, ea.completed_at
+  FROM public.exam_attempts ea
+  JOIN public.exams e ON e.id = ea.exam_id
+  JOIN public.profiles p ON p.id = ea.student_id
+  LEFT JOIN public.subjects s ON s.id = e.subject_id
+  WHERE ea.certificate_code = upper(btrim(_code))
+    AND ea.passed;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.verify_certificate(text) TO anon, authenticated;
@@ -0,0 +1,45 @@
+-- One row per question per graded attempt, for item analysis. Letters are mapped back
+-- through option_order so distractor counts line up across shuffled attempts.
+CREATE OR REPLACE FUNCTION public.get_item_responses(_exam_id uuid)
+RETURNS TABLE (
+  attempt_id uuid,
+  question_id uuid,
+  question_text text,
+  question_type text,
+  correct_answer text,
+  marks integer,
+  selected_answer text,
+  is_correct boolean,
+  marks_awarded numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF public.get_current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can analyse exams' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT ea.id, q.id, q.question_text, q.question_type, q.correct_answer, aq.marks,
+         public.unshuffle_answer(aq.option_order, sa.selected_answer),
+         COALESCE(sa.is_correct, false),
+         COALESCE(sa.marks_awarded, 0)
+  FROM public.exam_attempts ea
+  JOIN public.attempt_questions aq ON aq.attempt_id = ea.id
+  JOIN public.questions q ON q.id = aq.question_id
+  LEFT JOIN LATERAL (
+    SELECT student_answers.selected_answer, student_answers.is_correct, student_answers.marks_awarded
+    FROM public.student_answers
+    WHERE student_answers.attempt_id = ea.id
+      AND student_answers.question_id = aq.question_id
+    ORDER BY student_answers.created_at DESC
+    LIMIT 1
+  ) sa ON true
+  WHERE ea.exam_id = _exam_id
+    AND ea.status = 'completed'
+  ORDER BY ea.id, aq.order_number;
+END;
+$function$;
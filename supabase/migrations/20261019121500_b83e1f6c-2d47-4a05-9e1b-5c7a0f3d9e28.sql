@@ -0,0 +1,75 @@
+-- Aggregates for the admin analytics tab. security_invoker keeps the caller's RLS in
+-- force, so only admins see figures across every student. Days are UTC dates.
+
+-- Graded attempts per exam in 10-point percentage buckets; 100% falls in the 90 bucket
+CREATE VIEW public.exam_score_distribution
+WITH (security_invoker = true) AS
+SELECT exam_id,
+       LEAST(floor(percentage / 10) * 10, 90)::integer AS bucket_start,
+       count(*)::integer AS attempts
+FROM public.exam_attempts
+WHERE status = 'completed'
+  AND percentage IS NOT NULL
+GROUP BY exam_id, bucket_start;
+
+CREATE VIEW public.subject_pass_rates
+WITH (security_invoker = true) AS
+SELECT s.id AS subject_id,
+       s.name AS subject_name,
+       count(*)::integer AS graded_attempts,
+       count(*) FILTER (WHERE ea.passed)::integer AS passed_attempts,
+       round(count(*) FILTER (WHERE ea.passed) * 100.0 / count(*), 2) AS pass_rate
+FROM public.exam_attempts ea
+JOIN public.exams e ON e.id = ea.exam_id
+JOIN public.subjects s ON s.id = e.subject_id
+WHERE ea.status = 'completed'
+GROUP BY s.id, s.name;
+
+-- Attempts started per day alongside attempts graded that day and their average score
+CREATE VIEW public.daily_attempt_stats
+WITH (security_invoker = true) AS
+WITH started AS (
+  SELECT started_at::date AS day, count(*)::integer AS started
+  FROM public.exam_attempts
+  WHERE started_at IS NOT NULL
+  GROUP BY 1
+), completed AS (
+  SELECT completed_at::date AS day,
+         count(*)::integer AS completed,
+         round(avg(percentage), 2) AS average_percentage
+  FROM public.exam_attempts
+  WHERE status = 'completed'
+    AND completed_at IS NOT NULL
+  GROUP BY 1
+)
+SELECT day,
+       COALESCE(started.started, 0) AS started,
+       COALESCE(completed.completed, 0) AS completed,
+       completed.average_percentage
+FROM started
+FULL JOIN completed USING (day);
+
+-- How attempts ended. Attempts closed at their deadline were auto-submitted when time
+-- ran out; those with no saved answers at all count as abandoned.
+CREATE VIEW public.exam_completion_rates
+WITH (security_invoker = true) AS
+WITH outcomes AS (
+  SELECT ea.exam_id,
+         CASE
+           WHEN ea.status = 'in_progress' AND (ea.deadline_at IS NULL OR ea.deadline_at > now()) THEN 'in_progress'
+           WHEN NOT EXISTS (SELECT 1 FROM public.student_answers sa WHERE sa.attempt_id = ea.id) THEN 'abandoned'
+           WHEN ea.status = 'in_progress' OR ea.completed_at >= ea.deadline_at THEN 'timed_out'
+           ELSE 'submitted'
+         END AS outcome
+  FROM public.exam_attempts ea
+)
+SELECT e.id AS exam_id,
+       e.title AS exam_title,
+       count(*)::integer AS started,
+       count(*) FILTER (WHERE outcome = 'submitted')::integer AS submitted,
+       count(*) FILTER (WHERE outcome = 'timed_out')::integer AS timed_out,
+       count(*) FILTER (WHERE outcome = 'abandoned')::integer AS abandoned,
+       count(*) FILTER (WHERE outcome = 'in_progress')::integer AS in_progress
+FROM outcomes
+JOIN public.exams e ON e.id = outcomes.exam_id
+GROUP BY e.id, e.title;
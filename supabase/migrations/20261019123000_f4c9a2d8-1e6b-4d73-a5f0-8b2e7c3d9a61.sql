@@ -0,0 +1,38 @@
+-- The signed-in student's marks per question topic (questions.tags) across their graded
+-- attempts. Unanswered questions count as zero; untagged questions are left out.
+CREATE OR REPLACE FUNCTION public.get_my_topic_performance()
+RETURNS TABLE (
+  subject_id uuid,
+  subject_name text,
+  topic text,
+  questions integer,
+  marks_awarded numeric,
+  marks_possible integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT s.id, s.name, tag,
+         count(*)::integer,
+         COALESCE(SUM(sa.marks_awarded), 0),
+         SUM(aq.marks)::integer
+  FROM public.exam_attempts ea
+  JOIN public.exams e ON e.id = ea.exam_id
+  LEFT JOIN public.subjects s ON s.id = e.subject_id
+  JOIN public.attempt_questions aq ON aq.attempt_id = ea.id
+  JOIN public.questions q ON q.id = aq.question_id
+  CROSS JOIN LATERAL unnest(q.tags) AS tag
+  LEFT JOIN LATERAL (
+    SELECT student_answers.marks_awarded
+    FROM public.student_answers
+    WHERE student_answers.attempt_id = ea.id
+      AND student_answers.question_id = aq.question_id
+    ORDER BY student_answers.created_at DESC
+    LIMIT 1
+  ) sa ON true
+  WHERE ea.student_id = auth.uid()
+    AND ea.status = 'completed'
+  GROUP BY s.id, s.name, tag;
+$function$;
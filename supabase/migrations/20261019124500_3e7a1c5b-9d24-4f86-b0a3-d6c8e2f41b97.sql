@@ -0,0 +1,106 @@
+-- Every answer a student gives, oldest first per question. The current answer stays in
+-- student_answers; this keeps the ones it replaced so admins can see how often it changed.
+CREATE TABLE public.student_answer_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id uuid NOT NULL REFERENCES public.exam_attempts(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  selected_answer text,
+  response jsonb,
+  answer_text text,
+  answered_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX student_answer_history_attempt_question_idx
+  ON public.student_answer_history (attempt_id, question_id, answered_at);
+
+ALTER TABLE public.student_answer_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read answer history"
+ON public.student_answer_history
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+-- answered_at is when the current answer was given; updated_at also moves on grading
+ALTER TABLE public.student_answers
+  ADD COLUMN answered_at timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN updated_at timestamptz NOT NULL DEFAULT now();
+
+UPDATE public.student_answers
+SET answered_at = COALESCE(created_at, now()),
+    updated_at = COALESCE(created_at, now());
+
+-- Upserts without a conflict target inserted a new row for every change. Every one of those
+-- rows, the current answer included, is copied into the history, just as the trigger below
+-- records each new answer, so the earliest entry per question is the original answer. Only
+-- the latest row per question then stays in student_answers.
+INSERT INTO public.student_answer_history (attempt_id, question_id, selected_answer, response, answer_text, answered_at)
+SELECT attempt_id, question_id, selected_answer, response, answer_text, answered_at
+FROM public.student_answers
+WHERE attempt_id IS NOT NULL AND question_id IS NOT NULL;
+
+DELETE FROM public.student_answers sa
+USING (
+  SELECT id,
+         row_number() OVER (
+           PARTITION BY attempt_id, question_id
+           ORDER BY created_at DESC, id DESC
+         ) AS position
+  FROM public.student_answers
+) ranked
+WHERE sa.id = ranked.id
+  AND ranked.position > 1;
+
+ALTER TABLE public.student_answers
+  ADD CONSTRAINT student_answers_attempt_question_key UNIQUE (attempt_id, question_id);
+
+CREATE OR REPLACE FUNCTION public.stamp_student_answer()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  NEW.updated_at := now();
+
+  IF TG_OP = 'INSERT'
+    OR NEW.selected_answer IS DISTINCT FROM OLD.selected_answer
+    OR NEW.response IS DISTINCT FROM OLD.response
+    OR NEW.answer_text IS DISTINCT FROM OLD.answer_text THEN
+    NEW.answered_at := now();
+  ELSE
+    NEW.answered_at := OLD.answered_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER stamp_student_answer
+  BEFORE INSERT OR UPDATE ON public.student_answers
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_student_answer();
+
+-- Students cannot write the history table, so the trigger runs as its owner
+CREATE OR REPLACE FUNCTION public.record_answer_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  -- Grading updates leave the answer itself alone and are not a change
+  IF TG_OP = 'UPDATE'
+    AND NEW.selected_answer IS NOT DISTINCT FROM OLD.selected_answer
+    AND NEW.response IS NOT DISTINCT FROM OLD.response
+    AND NEW.answer_text IS NOT DISTINCT FROM OLD.answer_text THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.student_answer_history (attempt_id, question_id, selected_answer, response, answer_text, answered_at)
+  VALUES (NEW.attempt_id, NEW.question_id, NEW.selected_answer, NEW.response, NEW.answer_text, NEW.answered_at);
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER record_answer_history
+  AFTER INSERT OR UPDATE ON public.student_answers
+  FOR EACH ROW EXECUTE FUNCTION public.record_answer_history();
@@ -0,0 +1,66 @@
+-- Integrity events recorded by the exam page while an attempt is running
+CREATE TABLE public.attempt_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id uuid NOT NULL REFERENCES public.exam_attempts(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN (
+    'tab_hidden', 'window_blur', 'copy', 'paste', 'context_menu', 'fullscreen_exit', 'devtools_open'
+  )),
+  details jsonb,
+  occurred_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX attempt_events_attempt_id_idx ON public.attempt_events (attempt_id, occurred_at);
+
+ALTER TABLE public.attempt_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read attempt events"
+ON public.attempt_events
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Students can read their own attempt events"
+ON public.attempt_events
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.exam_attempts
+  WHERE exam_attempts.id = attempt_events.attempt_id
+    AND exam_attempts.student_id = auth.uid()
+));
+
+-- Events logged before the attempt is auto-submitted; NULL only records them
+ALTER TABLE public.exams
+  ADD COLUMN max_violations integer CHECK (max_violations > 0);
+
+-- Records an event for the caller's running attempt and returns how many it now has
+CREATE OR REPLACE FUNCTION public.log_attempt_event(_attempt_id uuid, _event_type text, _details jsonb DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+  _count integer;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt_id;
+
+  IF NOT FOUND OR _attempt.student_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Exam attempt not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt is no longer in progress' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.attempt_events (attempt_id, event_type, details)
+  VALUES (_attempt_id, _event_type, _details);
+
+  SELECT count(*)::integer INTO _count
+  FROM public.attempt_events
+  WHERE attempt_id = _attempt_id;
+
+  RETURN _count;
+END;
+$function$;
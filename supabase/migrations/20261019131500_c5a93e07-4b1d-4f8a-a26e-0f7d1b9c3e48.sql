@@ -0,0 +1,3 @@
+-- Lockdown mode: questions are only shown while the exam page is fullscreen
+ALTER TABLE public.exams
+  ADD COLUMN require_fullscreen boolean NOT NULL DEFAULT false;
@@ -0,0 +1,130 @@
+-- Access codes for supervised sessions. Codes live in their own admin-only table so they
+-- never reach students through exams selects; students only see requires_access_code.
+CREATE TABLE public.exam_access_codes (
+  exam_id uuid PRIMARY KEY REFERENCES public.exams(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  expires_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.exam_access_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage access codes"
+ON public.exam_access_codes
+FOR ALL
+USING (public.get_current_user_role() = 'admin');
+
+ALTER TABLE public.exams
+  ADD COLUMN requires_access_code boolean NOT NULL DEFAULT false;
+
+-- Keeps exams.requires_access_code in step with whether the exam has a code
+CREATE OR REPLACE FUNCTION public.sync_exam_access_code()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  UPDATE public.exams
+  SET requires_access_code = (TG_OP <> 'DELETE')
+  WHERE id = COALESCE(NEW.exam_id, OLD.exam_id);
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER sync_exam_access_code
+  AFTER INSERT OR DELETE ON public.exam_access_codes
+  FOR EACH ROW EXECUTE FUNCTION public.sync_exam_access_code();
+
+-- Six characters without look-alikes (0/O, 1/I/L) so codes are easy to read off a board
+CREATE OR REPLACE FUNCTION public.generate_access_code()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $function$
+  SELECT string_agg(substr('ABCDEFGHJKMNPQRSTUVWXYZ23456789', (floor(random() * 31) + 1)::integer, 1), '')
+  FROM generate_series(1, 6);
+$function$;
+
+-- Replaces the exam's code with a fresh one, valid for _valid_minutes or until rotated again
+CREATE OR REPLACE FUNCTION public.rotate_exam_access_code(_exam_id uuid, _valid_minutes integer DEFAULT NULL)
+RETURNS public.exam_access_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _access_code public.exam_access_codes;
+BEGIN
+  IF public.get_current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only admins can issue access codes' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.exam_access_codes (exam_id, code, expires_at)
+  VALUES (
+    _exam_id,
+    public.generate_access_code(),
+    CASE WHEN _valid_minutes IS NOT NULL THEN now() + make_interval(mins => _valid_minutes) END
+  )
+  ON CONFLICT (exam_id) DO UPDATE
+  SET code = EXCLUDED.code,
+      expires_at = EXCLUDED.expires_at,
+      created_at = now()
+  RETURNING * INTO _access_code;
+
+  RETURN _access_code;
+END;
+$function$;
+
+-- Attempts are started here rather than by inserting into exam_attempts, so the access
+-- code can be checked without ever sending it to the client. The insert triggers still
+-- enforce the schedule and retake rules.
+CREATE OR REPLACE FUNCTION public.start_attempt(_exam_id uuid, _access_code text DEFAULT NULL)
+RETURNS public.exam_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _exam public.exams;
+  _code public.exam_access_codes;
+  _attempt public.exam_attempts;
+BEGIN
+  SELECT * INTO _exam
+  FROM public.exams
+  WHERE id = _exam_id;
+
+  IF NOT FOUND OR NOT _exam.is_active THEN
+    RAISE EXCEPTION 'Exam not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.get_current_user_role() <> 'student' THEN
+    RAISE EXCEPTION 'Only students can take exams' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _code
+  FROM public.exam_access_codes
+  WHERE exam_id = _exam_id;
+
+  IF FOUND THEN
+    IF _access_code IS NULL OR upper(btrim(_access_code)) <> _code.code THEN
+      RAISE EXCEPTION 'Incorrect access code' USING ERRCODE = '42501';
+    END IF;
+
+    IF _code.expires_at <= now() THEN
+      RAISE EXCEPTION 'This access code has expired; ask your supervisor for a new one' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  INSERT INTO public.exam_attempts (exam_id, student_id, status)
+  VALUES (_exam_id, auth.uid(), 'in_progress')
+  RETURNING * INTO _attempt;
+
+  RETURN _attempt;
+END;
+$function$;
+
+-- Students can no longer create attempts directly and skip the access code
+REVOKE INSERT ON public.exam_attempts FROM anon, authenticated;
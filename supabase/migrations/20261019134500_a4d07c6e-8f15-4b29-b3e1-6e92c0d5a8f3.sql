@@ -0,0 +1,198 @@
+-- Class sections (e.g. "BSCS 2-A, 1st Sem 2026") and the students enrolled in them
+CREATE TABLE public.sections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.section_enrollments (
+  section_id uuid NOT NULL REFERENCES public.sections(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  enrolled_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (section_id, student_id)
+);
+
+CREATE INDEX section_enrollments_student_id_idx ON public.section_enrollments (student_id);
+
+-- An exam assigned to no section stays open to every student, as before sections existed
+CREATE TABLE public.exam_sections (
+  exam_id uuid NOT NULL REFERENCES public.exams(id) ON DELETE CASCADE,
+  section_id uuid NOT NULL REFERENCES public.sections(id) ON DELETE CASCADE,
+  PRIMARY KEY (exam_id, section_id)
+);
+
+CREATE INDEX exam_sections_section_id_idx ON public.exam_sections (section_id);
+
+ALTER TABLE public.sections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.section_enrollments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exam_sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage sections"
+ON public.sections
+FOR ALL
+USING (public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Admins can manage enrollments"
+ON public.section_enrollments
+FOR ALL
+USING (public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Students can view their own enrollments"
+ON public.section_enrollments
+FOR SELECT
+USING (student_id = auth.uid());
+
+CREATE POLICY "Admins can manage exam sections"
+ON public.exam_sections
+FOR ALL
+USING (public.get_current_user_role() = 'admin');
+
+-- Whether the signed-in student is in a section the exam is assigned to
+CREATE OR REPLACE FUNCTION public.is_exam_assigned(_exam_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.exam_sections
+    WHERE exam_id = _exam_id
+  ) OR EXISTS (
+    SELECT 1
+    FROM public.exam_sections es
+    JOIN public.section_enrollments se ON se.section_id = es.section_id
+    WHERE es.exam_id = _exam_id
+      AND se.student_id = auth.uid()
+  );
+$function$;
+
+-- Students see the exams assigned to them, plus any they have attempted so their results
+-- keep their titles after a section change
+CREATE OR REPLACE FUNCTION public.can_view_exam(_exam_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT public.is_exam_assigned(_exam_id) OR EXISTS (
+    SELECT 1 FROM public.exam_attempts
+    WHERE exam_id = _exam_id
+      AND student_id = auth.uid()
+  );
+$function$;
+
+DO $$
+DECLARE
+  _policy record;
+BEGIN
+  FOR _policy IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'exams'
+      AND policyname <> 'Admins can manage exams'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.exams', _policy.policyname);
+  END LOOP;
+END $$;
+
+CREATE POLICY "Students can view exams assigned to them"
+ON public.exams
+FOR SELECT
+USING (public.can_view_exam(id));
+
+-- Bulk enrollment from a roster. Emails are matched case-insensitively against student
+-- profiles; the outcome for each one is returned so the admin can fix the roster.
+CREATE OR REPLACE FUNCTION public.enroll_students_by_email(_section_id uuid, _emails text[])
+RETURNS TABLE (email text, status text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _email text;
+  _normalized text;
+  _profile public.profiles;
+BEGIN
+  IF public.get_current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only admins can enroll students' USING ERRCODE = '42501';
+  END IF;
+
+  FOREACH _email IN ARRAY _emails LOOP
+    _normalized := lower(btrim(_email));
+    CONTINUE WHEN _normalized = '';
+    email := _normalized;
+
+    SELECT * INTO _profile
+    FROM public.profiles
+    WHERE lower(profiles.email) = _normalized;
+
+    IF NOT FOUND THEN
+      status := 'not_found';
+    ELSIF _profile.role <> 'student' THEN
+      status := 'not_student';
+    ELSE
+      INSERT INTO public.section_enrollments (section_id, student_id)
+      VALUES (_section_id, _profile.id)
+      ON CONFLICT DO NOTHING;
+
+      status := CASE WHEN FOUND THEN 'enrolled' ELSE 'already_enrolled' END;
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$function$;
+
+-- Students can only start exams assigned to one of their sections
+CREATE OR REPLACE FUNCTION public.start_attempt(_exam_id uuid, _access_code text DEFAULT NULL)
+RETURNS public.exam_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _exam public.exams;
+  _code public.exam_access_codes;
+  _attempt public.exam_attempts;
+BEGIN
+  SELECT * INTO _exam
+  FROM public.exams
+  WHERE id = _exam_id;
+
+  IF NOT FOUND OR NOT _exam.is_active THEN
+    RAISE EXCEPTION 'Exam not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.get_current_user_role() <> 'student' THEN
+    RAISE EXCEPTION 'Only students can take exams' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.is_exam_assigned(_exam_id) THEN
+    RAISE EXCEPTION 'This exam is not assigned to any of your sections' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _code
+  FROM public.exam_access_codes
+  WHERE exam_id = _exam_id;
+
+  IF FOUND THEN
+    IF _access_code IS NULL OR upper(btrim(_access_code)) <> _code.code THEN
+      RAISE EXCEPTION 'Incorrect access code' USING ERRCODE = '42501';
+    END IF;
+
+    IF _code.expires_at <= now() THEN
+      RAISE EXCEPTION 'This access code has expired; ask your supervisor for a new one' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  INSERT INTO public.exam_attempts (exam_id, student_id, status)
+  VALUES (_exam_id, auth.uid(), 'in_progress')
+  RETURNING * INTO _attempt;
+
+  RETURN _attempt;
+END;
+$function$;
@@ -0,0 +1,378 @@
+-- Instructors sit between students and admins: they create and run their own subjects and
+-- exams and see results only for those. Admins keep global control.
+ALTER TABLE public.profiles
+  DROP CONSTRAINT IF EXISTS profiles_role_check;
+
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('student', 'instructor', 'admin'));
+
+CREATE OR REPLACE FUNCTION public.is_subject_owner(_subject_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT COALESCE(public.get_current_user_role() = 'instructor', false) AND EXISTS (
+    SELECT 1 FROM public.subjects
+    WHERE id = _subject_id
+      AND created_by = auth.uid()
+  );
+$function$;
+
+CREATE OR REPLACE FUNCTION public.is_exam_owner(_exam_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT COALESCE(public.get_current_user_role() = 'instructor', false) AND EXISTS (
+    SELECT 1 FROM public.exams
+    WHERE id = _exam_id
+      AND created_by = auth.uid()
+  );
+$function$;
+
+-- Used by the staff-facing functions below in place of the old admin-only check
+CREATE OR REPLACE FUNCTION public.can_manage_exam(_exam_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT COALESCE(public.get_current_user_role() = 'admin', false) OR public.is_exam_owner(_exam_id);
+$function$;
+
+CREATE POLICY "Instructors can manage their own subjects"
+ON public.subjects
+FOR ALL
+USING (public.get_current_user_role() = 'instructor' AND created_by = auth.uid())
+WITH CHECK (public.get_current_user_role() = 'instructor' AND created_by = auth.uid());
+
+-- Instructors only build exams on their own subjects, whose question bank they control
+CREATE POLICY "Instructors can manage their own exams"
+ON public.exams
+FOR ALL
+USING (public.get_current_user_role() = 'instructor' AND created_by = auth.uid())
+WITH CHECK (
+  public.get_current_user_role() = 'instructor'
+  AND created_by = auth.uid()
+  AND public.is_subject_owner(subject_id)
+);
+
+CREATE POLICY "Instructors can manage questions in their own subjects"
+ON public.questions
+FOR ALL
+USING (public.is_subject_owner(subject_id));
+
+CREATE POLICY "Instructors can manage questions on their own exams"
+ON public.exam_questions
+FOR ALL
+USING (public.is_exam_owner(exam_id));
+
+CREATE POLICY "Instructors can manage blueprint rules on their own exams"
+ON public.exam_blueprint_rules
+FOR ALL
+USING (public.is_exam_owner(exam_id));
+
+CREATE POLICY "Instructors can manage access codes on their own exams"
+ON public.exam_access_codes
+FOR ALL
+USING (public.is_exam_owner(exam_id));
+
+-- Sections stay admin-managed; instructors only choose which of them an exam is for
+CREATE POLICY "Instructors can view sections"
+ON public.sections
+FOR SELECT
+USING (public.get_current_user_role() = 'instructor');
+
+CREATE POLICY "Instructors can assign their own exams to sections"
+ON public.exam_sections
+FOR ALL
+USING (public.is_exam_owner(exam_id));
+
+CREATE POLICY "Instructors can read attempts on their own exams"
+ON public.exam_attempts
+FOR SELECT
+USING (public.is_exam_owner(exam_id));
+
+CREATE POLICY "Instructors can view attempt questions on their own exams"
+ON public.attempt_questions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.exam_attempts ea
+  WHERE ea.id = attempt_questions.attempt_id
+    AND public.is_exam_owner(ea.exam_id)
+));
+
+CREATE POLICY "Instructors can read answers on their own exams"
+ON public.student_answers
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.exam_attempts ea
+  WHERE ea.id = student_answers.attempt_id
+    AND public.is_exam_owner(ea.exam_id)
+));
+
+CREATE POLICY "Instructors can read answer history on their own exams"
+ON public.student_answer_history
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.exam_attempts ea
+  WHERE ea.id = student_answer_history.attempt_id
+    AND public.is_exam_owner(ea.exam_id)
+));
+
+CREATE POLICY "Instructors can read attempt events on their own exams"
+ON public.attempt_events
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.exam_attempts ea
+  WHERE ea.id = attempt_events.attempt_id
+    AND public.is_exam_owner(ea.exam_id)
+));
+
+-- Names and emails of the students who sat the instructor's exams, for grading and results
+CREATE POLICY "Instructors can view students on their own exams"
+ON public.profiles
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.exam_attempts ea
+  WHERE ea.student_id = profiles.id
+    AND public.is_exam_owner(ea.exam_id)
+));
+
+CREATE OR REPLACE FUNCTION public.grade_essay_answer(_answer_id uuid, _marks numeric, _feedback text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt_id uuid;
+  _max_marks integer;
+BEGIN
+  IF NOT public.can_manage_exam((
+    SELECT ea.exam_id
+    FROM public.student_answers sa
+    JOIN public.exam_attempts ea ON ea.id = sa.attempt_id
+    WHERE sa.id = _answer_id
+  )) THEN
+    RAISE EXCEPTION 'Only the exam''s instructor or an admin can grade answers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT sa.attempt_id, aq.marks INTO _attempt_id, _max_marks
+  FROM public.student_answers sa
+  JOIN public.questions q ON q.id = sa.question_id
+  JOIN public.exam_attempts ea ON ea.id = sa.attempt_id
+  JOIN public.attempt_questions aq ON aq.attempt_id = sa.attempt_id AND aq.question_id = q.id
+  WHERE sa.id = _answer_id
+    AND q.question_type = 'essay'
+    AND ea.status IN ('pending_review', 'completed');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Essay answer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _marks < 0 OR _marks > _max_marks THEN
+    RAISE EXCEPTION 'Marks must be between 0 and %', _max_marks USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.student_answers
+  SET marks_awarded = _marks,
+      is_correct = _marks = _max_marks,
+      feedback = NULLIF(btrim(_feedback), ''),
+      graded_by = auth.uid(),
+      graded_at = now()
+  WHERE id = _answer_id;
+
+  PERFORM public.refresh_attempt_score(_attempt_id);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_attempt_questions(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_type text,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  options jsonb,
+  marks integer,
+  order_number integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  -- Students only see questions while their attempt is open
+  IF NOT public.can_manage_exam((SELECT ea.exam_id FROM public.exam_attempts ea WHERE ea.id = _attempt_id))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.exam_attempts ea
+      WHERE ea.id = _attempt_id
+        AND ea.student_id = auth.uid()
+        AND ea.status = 'in_progress'
+    ) THEN
+    RAISE EXCEPTION 'No exam attempt in progress' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.question_type, q.question_text,
+         public.shuffled_option(q, aq.option_order, 1),
+         public.shuffled_option(q, aq.option_order, 2),
+         public.shuffled_option(q, aq.option_order, 3),
+         public.shuffled_option(q, aq.option_order, 4),
+         q.options, aq.marks, aq.order_number
+  FROM public.attempt_questions aq
+  JOIN public.questions q ON q.id = aq.question_id
+  WHERE aq.attempt_id = _attempt_id
+  ORDER BY aq.order_number;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_attempt_review(_attempt_id uuid)
+RETURNS TABLE (
+  id uuid,
+  question_type text,
+  question_text text,
+  option_a text,
+  option_b text,
+  option_c text,
+  option_d text,
+  options jsonb,
+  correct_answer text,
+  answer_key jsonb,
+  explanation text,
+  marks integer,
+  order_number integer,
+  selected_answer text,
+  response jsonb,
+  answer_text text,
+  is_correct boolean,
+  marks_awarded numeric,
+  feedback text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE exam_attempts.id = _attempt_id;
+
+  IF NOT public.can_manage_exam(_attempt.exam_id) THEN
+    IF NOT FOUND OR _attempt.student_id IS DISTINCT FROM auth.uid() OR _attempt.status = 'in_progress' THEN
+      RAISE EXCEPTION 'No submitted attempt to review' USING ERRCODE = '42501';
+    END IF;
+    IF NOT public.is_review_released(_attempt.exam_id) THEN
+      RAISE EXCEPTION 'Answers for this exam have not been released' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.question_type, q.question_text,
+         public.shuffled_option(q, aq.option_order, 1),
+         public.shuffled_option(q, aq.option_order, 2),
+         public.shuffled_option(q, aq.option_order, 3),
+         public.shuffled_option(q, aq.option_order, 4),
+         q.options,
+         public.shuffle_answer(aq.option_order, q.correct_answer),
+         -- Essay rubrics are grader notes, not part of the answer
+         CASE WHEN q.question_type = 'essay' THEN NULL ELSE q.answer_key END,
+         q.explanation, aq.marks, aq.order_number,
+         sa.selected_answer, sa.response, sa.answer_text, sa.is_correct, sa.marks_awarded, sa.feedback
+  FROM public.attempt_questions aq
+  JOIN public.questions q ON q.id = aq.question_id
+  LEFT JOIN (
+    SELECT DISTINCT ON (student_answers.question_id) student_answers.*
+    FROM public.student_answers
+    WHERE student_answers.attempt_id = _attempt_id
+    ORDER BY student_answers.question_id, student_answers.created_at DESC
+  ) sa ON sa.question_id = aq.question_id
+  WHERE aq.attempt_id = _attempt_id
+  ORDER BY aq.order_number;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_item_responses(_exam_id uuid)
+RETURNS TABLE (
+  attempt_id uuid,
+  question_id uuid,
+  question_text text,
+  question_type text,
+  correct_answer text,
+  marks integer,
+  selected_answer text,
+  is_correct boolean,
+  marks_awarded numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+BEGIN
+  IF NOT public.can_manage_exam(_exam_id) THEN
+    RAISE EXCEPTION 'Only the exam''s instructor or an admin can analyse it' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT ea.id, q.id, q.question_text, q.question_type, q.correct_answer, aq.marks,
+         public.unshuffle_answer(aq.option_order, sa.selected_answer),
+         COALESCE(sa.is_correct, false),
+         COALESCE(sa.marks_awarded, 0)
+  FROM public.exam_attempts ea
+  JOIN public.attempt_questions aq ON aq.attempt_id = ea.id
+  JOIN public.questions q ON q.id = aq.question_id
+  LEFT JOIN LATERAL (
+    SELECT student_answers.selected_answer, student_answers.is_correct, student_answers.marks_awarded
+    FROM public.student_answers
+    WHERE student_answers.attempt_id = ea.id
+      AND student_answers.question_id = aq.question_id
+    ORDER BY student_answers.created_at DESC
+    LIMIT 1
+  ) sa ON true
+  WHERE ea.exam_id = _exam_id
+    AND ea.status = 'completed'
+  ORDER BY ea.id, aq.order_number;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.rotate_exam_access_code(_exam_id uuid, _valid_minutes integer DEFAULT NULL)
+RETURNS public.exam_access_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _access_code public.exam_access_codes;
+BEGIN
+  IF NOT public.can_manage_exam(_exam_id) THEN
+    RAISE EXCEPTION 'Only the exam''s instructor or an admin can issue access codes' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.exam_access_codes (exam_id, code, expires_at)
+  VALUES (
+    _exam_id,
+    public.generate_access_code(),
+    CASE WHEN _valid_minutes IS NOT NULL THEN now() + make_interval(mins => _valid_minutes) END
+  )
+  ON CONFLICT (exam_id) DO UPDATE
+  SET code = EXCLUDED.code,
+      expires_at = EXCLUDED.expires_at,
+      created_at = now()
+  RETURNING * INTO _access_code;
+
+  RETURN _access_code;
+END;
+$function$;
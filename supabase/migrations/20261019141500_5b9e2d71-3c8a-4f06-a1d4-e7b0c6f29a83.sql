@@ -0,0 +1,66 @@
+-- The marks an attempt is nominally out of: the fixed questions plus each blueprint rule's
+-- draw. A rule without its own marks counts the average marks of the pool it draws from,
+-- and never more questions than the pool holds.
+CREATE OR REPLACE FUNCTION public.exam_nominal_total_marks(_exam_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT ((
+    SELECT COALESCE(SUM(eq.marks), 0)
+    FROM public.exam_questions eq
+    WHERE eq.exam_id = _exam_id
+  ) + (
+    SELECT COALESCE(SUM(pool.drawn * COALESCE(r.marks, pool.average_marks)), 0)
+    FROM public.exam_blueprint_rules r
+    JOIN public.exams e ON e.id = r.exam_id
+    CROSS JOIN LATERAL (
+      SELECT LEAST(r.question_count, count(*)) AS drawn, round(avg(q.marks)) AS average_marks
+      FROM public.questions q
+      WHERE q.subject_id = e.subject_id
+        AND (r.tag IS NULL OR r.tag = ANY (q.tags))
+        AND (r.difficulty IS NULL OR q.difficulty = r.difficulty)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.exam_questions eq
+          WHERE eq.exam_id = _exam_id AND eq.question_id = q.id
+        )
+    ) pool
+    WHERE r.exam_id = _exam_id
+  ))::integer;
+$function$;
+
+-- exams.total_marks follows the exam's questions and blueprint rules, so exam listings show
+-- the same total the attempts are marked out of
+CREATE OR REPLACE FUNCTION public.sync_exam_total_marks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _exam_id uuid;
+BEGIN
+  _exam_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.exam_id ELSE NEW.exam_id END;
+
+  UPDATE public.exams
+  SET total_marks = public.exam_nominal_total_marks(_exam_id)
+  WHERE id = _exam_id;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER sync_exam_total_marks
+  AFTER INSERT OR UPDATE OR DELETE ON public.exam_questions
+  FOR EACH ROW EXECUTE FUNCTION public.sync_exam_total_marks();
+
+CREATE TRIGGER sync_exam_total_marks
+  AFTER INSERT OR UPDATE OR DELETE ON public.exam_blueprint_rules
+  FOR EACH ROW EXECUTE FUNCTION public.sync_exam_total_marks();
+
+UPDATE public.exams e
+SET total_marks = public.exam_nominal_total_marks(e.id)
+WHERE EXISTS (SELECT 1 FROM public.exam_questions WHERE exam_id = e.id)
+   OR EXISTS (SELECT 1 FROM public.exam_blueprint_rules WHERE exam_id = e.id);
@@ -0,0 +1,16 @@
+-- An 'after_close' exam without a close date has nothing to wait for, so its answers are
+-- released as soon as the attempt is submitted instead of never
+CREATE OR REPLACE FUNCTION public.is_review_released(_exam_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.exams
+    WHERE id = _exam_id
+      AND (review_policy = 'immediately'
+        OR (review_policy = 'after_close' AND (closes_at IS NULL OR closes_at <= now())))
+  );
+$function$;
@@ -0,0 +1,74 @@
+-- The pass mark is applied against the exam's nominal total including blueprint draws
+-- rather than exams.total_marks, which can still hold a hand-entered value
+CREATE OR REPLACE FUNCTION public.refresh_attempt_score(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _total_marks integer;
+  _score numeric;
+  _pending boolean;
+  _exam public.exams;
+  _nominal_total integer;
+  _passed boolean;
+BEGIN
+  SELECT COALESCE(SUM(latest.marks_awarded), 0),
+         COALESCE(bool_or(latest.question_type = 'essay' AND latest.marks_awarded IS NULL), false)
+  INTO _score, _pending
+  FROM (
+    SELECT DISTINCT ON (sa.question_id) sa.marks_awarded, q.question_type
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = _attempt_id
+    ORDER BY sa.question_id, sa.created_at DESC
+  ) latest;
+
+  SELECT COALESCE(SUM(marks), 0) INTO _total_marks
+  FROM public.attempt_questions
+  WHERE attempt_id = _attempt_id;
+
+  SELECT e.* INTO _exam
+  FROM public.exams e
+  JOIN public.exam_attempts ea ON ea.exam_id = e.id
+  WHERE ea.id = _attempt_id;
+
+  _nominal_total := public.exam_nominal_total_marks(_exam.id);
+
+  IF NOT _pending THEN
+    _passed := CASE
+      WHEN _nominal_total > 0 THEN _score * _nominal_total >= _exam.passing_marks * _total_marks
+      ELSE _score >= _exam.passing_marks
+    END;
+  END IF;
+
+  -- A code once issued is kept so printed certificates stay valid after a regrade
+  -- that still passes; verification also requires passed to be true
+  UPDATE public.exam_attempts
+  SET status = CASE WHEN _pending THEN 'pending_review' ELSE 'completed' END,
+      score = _score,
+      total_marks = _total_marks,
+      percentage = CASE WHEN _total_marks > 0 THEN round(_score * 100.0 / _total_marks, 2) ELSE 0 END,
+      passed = _passed,
+      certificate_code = CASE
+        WHEN _passed THEN COALESCE(certificate_code, public.generate_certificate_code())
+        ELSE certificate_code
+      END
+  WHERE id = _attempt_id;
+END;
+$function$;
+
+UPDATE public.exam_attempts ea
+SET passed = CASE
+  WHEN public.exam_nominal_total_marks(ea.exam_id) > 0
+    THEN COALESCE(ea.score, 0) * public.exam_nominal_total_marks(ea.exam_id) >= e.passing_marks * ea.total_marks
+  ELSE COALESCE(ea.score, 0) >= e.passing_marks
+END
+FROM public.exams e
+WHERE e.id = ea.exam_id
+  AND ea.status = 'completed';
+
+UPDATE public.exam_attempts
+SET certificate_code = public.generate_certificate_code()
+WHERE passed AND certificate_code IS NULL;
@@ -0,0 +1,91 @@
+-- Wrong access codes are counted per student and exam so a six character code can't be
+-- guessed by retrying start_attempt
+CREATE TABLE public.access_code_failures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id uuid NOT NULL REFERENCES public.exams(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  attempted_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX access_code_failures_student_exam_idx ON public.access_code_failures (student_id, exam_id, attempted_at);
+
+ALTER TABLE public.access_code_failures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read access code failures"
+ON public.access_code_failures
+FOR SELECT
+USING (public.get_current_user_role() = 'admin');
+
+CREATE POLICY "Instructors can read access code failures on their own exams"
+ON public.access_code_failures
+FOR SELECT
+USING (public.is_exam_owner(exam_id));
+
+-- A wrong code is recorded and answered with no attempt rather than an error, since raising
+-- would roll the record back. After five wrong codes in fifteen minutes the student is
+-- locked out of the exam until the window has passed.
+CREATE OR REPLACE FUNCTION public.start_attempt(_exam_id uuid, _access_code text DEFAULT NULL)
+RETURNS public.exam_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _exam public.exams;
+  _code public.exam_access_codes;
+  _attempt public.exam_attempts;
+BEGIN
+  SELECT * INTO _exam
+  FROM public.exams
+  WHERE id = _exam_id;
+
+  IF NOT FOUND OR NOT _exam.is_active THEN
+    RAISE EXCEPTION 'Exam not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.get_current_user_role() <> 'student' THEN
+    RAISE EXCEPTION 'Only students can take exams' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.is_exam_assigned(_exam_id) THEN
+    RAISE EXCEPTION 'This exam is not assigned to any of your sections' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _code
+  FROM public.exam_access_codes
+  WHERE exam_id = _exam_id;
+
+  IF FOUND THEN
+    IF (
+      SELECT count(*) FROM public.access_code_failures
+      WHERE exam_id = _exam_id
+        AND student_id = auth.uid()
+        AND attempted_at > now() - interval '15 minutes'
+    ) >= 5 THEN
+      RAISE EXCEPTION 'Too many incorrect access codes; try again in 15 minutes' USING ERRCODE = '42501';
+    END IF;
+
+    IF _access_code IS NULL OR upper(btrim(_access_code)) <> _code.code THEN
+      INSERT INTO public.access_code_failures (exam_id, student_id)
+      VALUES (_exam_id, auth.uid());
+
+      RETURN NULL;
+    END IF;
+
+    IF _code.expires_at <= now() THEN
+      RAISE EXCEPTION 'This access code has expired; ask your supervisor for a new one' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  INSERT INTO public.exam_attempts (exam_id, student_id, status)
+  VALUES (_exam_id, auth.uid(), 'in_progress')
+  RETURNING * INTO _attempt;
+
+  -- RETURNING runs before the AFTER INSERT trigger fills in total_marks
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt.id;
+
+  RETURN _attempt;
+END;
+$function$;
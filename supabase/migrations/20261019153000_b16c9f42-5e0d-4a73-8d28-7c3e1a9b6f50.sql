@@ -0,0 +1,11 @@
+-- Ownership columns reference profiles everywhere else in the schema
+ALTER TABLE public.sections
+  DROP CONSTRAINT sections_created_by_fkey;
+
+UPDATE public.sections s
+SET created_by = NULL
+WHERE created_by IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = s.created_by);
+
+ALTER TABLE public.sections
+  ADD CONSTRAINT sections_created_by_fkey FOREIGN KEY (created_by) REFERENCES public.profiles(id);
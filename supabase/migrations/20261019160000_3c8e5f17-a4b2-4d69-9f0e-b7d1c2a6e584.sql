@@ -0,0 +1,78 @@
+-- The pass mark is kept as a percentage of what each attempt is marked out of. exams.total_marks
+-- now follows the exam's questions, so an absolute pass mark typed against the create form's
+-- total no longer lines up with it.
+ALTER TABLE public.exams
+  ADD COLUMN pass_percentage numeric(5,2) NOT NULL DEFAULT 60
+    CHECK (pass_percentage >= 0 AND pass_percentage <= 100);
+
+-- Pass marks above the synced total were typed against the form's default of 100 marks
+UPDATE public.exams
+SET pass_percentage = CASE
+  WHEN total_marks > 0 AND passing_marks <= total_marks THEN round(passing_marks * 100.0 / total_marks, 2)
+  ELSE LEAST(GREATEST(passing_marks, 0), 100)
+END;
+
+CREATE OR REPLACE FUNCTION public.refresh_attempt_score(_attempt_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _total_marks integer;
+  _score numeric;
+  _pending boolean;
+  _pass_percentage numeric;
+  _passed boolean;
+BEGIN
+  SELECT COALESCE(SUM(latest.marks_awarded), 0),
+         COALESCE(bool_or(latest.question_type = 'essay' AND latest.marks_awarded IS NULL), false)
+  INTO _score, _pending
+  FROM (
+    SELECT DISTINCT ON (sa.question_id) sa.marks_awarded, q.question_type
+    FROM public.student_answers sa
+    JOIN public.questions q ON q.id = sa.question_id
+    WHERE sa.attempt_id = _attempt_id
+    ORDER BY sa.question_id, sa.created_at DESC
+  ) latest;
+
+  SELECT COALESCE(SUM(marks), 0) INTO _total_marks
+  FROM public.attempt_questions
+  WHERE attempt_id = _attempt_id;
+
+  SELECT e.pass_percentage INTO _pass_percentage
+  FROM public.exams e
+  JOIN public.exam_attempts ea ON ea.exam_id = e.id
+  WHERE ea.id = _attempt_id;
+
+  IF NOT _pending THEN
+    _passed := _total_marks > 0 AND _score * 100 >= _pass_percentage * _total_marks;
+  END IF;
+
+  -- A code once issued is kept so printed certificates stay valid after a regrade
+  -- that still passes; verification also requires passed to be true
+  UPDATE public.exam_attempts
+  SET status = CASE WHEN _pending THEN 'pending_review' ELSE 'completed' END,
+      score = _score,
+      total_marks = _total_marks,
+      percentage = CASE WHEN _total_marks > 0 THEN round(_score * 100.0 / _total_marks, 2) ELSE 0 END,
+      passed = _passed,
+      certificate_code = CASE
+        WHEN _passed THEN COALESCE(certificate_code, public.generate_certificate_code())
+        ELSE certificate_code
+      END
+  WHERE id = _attempt_id;
+END;
+$function$;
+
+ALTER TABLE public.exams DROP COLUMN passing_marks;
+
+UPDATE public.exam_attempts ea
+SET passed = ea.total_marks > 0 AND COALESCE(ea.score, 0) * 100 >= e.pass_percentage * ea.total_marks
+FROM public.exams e
+WHERE e.id = ea.exam_id
+  AND ea.status = 'completed';
+
+UPDATE public.exam_attempts
+SET certificate_code = public.generate_certificate_code()
+WHERE passed AND certificate_code IS NULL;
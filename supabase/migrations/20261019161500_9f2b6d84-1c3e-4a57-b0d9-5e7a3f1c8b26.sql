@@ -0,0 +1,25 @@
+-- Answers released 'after_close' need a close date to wait for; without one, early finishers
+-- would see the answer key while others are still sitting the exam. Exams already set up that
+-- way keep their answers hidden, as they were before, until a close date is added.
+UPDATE public.exams
+SET review_policy = 'never'
+WHERE review_policy = 'after_close'
+  AND closes_at IS NULL;
+
+ALTER TABLE public.exams
+  ADD CONSTRAINT exams_review_close_date_check CHECK (review_policy <> 'after_close' OR closes_at IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION public.is_review_released(_exam_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.exams
+    WHERE id = _exam_id
+      AND (review_policy = 'immediately'
+        OR (review_policy = 'after_close' AND closes_at <= now()))
+  );
+$function$;
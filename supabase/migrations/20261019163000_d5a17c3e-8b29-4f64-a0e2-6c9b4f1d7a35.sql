@@ -0,0 +1,26 @@
+-- Students only see active exams. Inactive ones, such as drafts and freshly imported exams,
+-- stay with staff, who read them through the admin and instructor policies. An exam the
+-- student already attempted stays visible so their results keep its title after it is
+-- switched off.
+CREATE OR REPLACE FUNCTION public.has_attempted_exam(_exam_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.exam_attempts
+    WHERE exam_id = _exam_id
+      AND student_id = auth.uid()
+  );
+$function$;
+
+DROP POLICY "Students can view exams assigned to them" ON public.exams;
+
+CREATE POLICY "Students can view active exams assigned to them"
+ON public.exams
+FOR SELECT
+USING ((is_active AND public.is_exam_assigned(id)) OR public.has_attempted_exam(id));
+
+DROP FUNCTION public.can_view_exam(uuid);
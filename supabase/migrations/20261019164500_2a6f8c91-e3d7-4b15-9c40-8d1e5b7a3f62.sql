@@ -0,0 +1,13 @@
+-- An instructor may only link questions from their own subjects into their exams. Otherwise
+-- they could pull another instructor's question into an exam of theirs and read its answer
+-- key through the review and question functions.
+DROP POLICY "Instructors can manage questions on their own exams" ON public.exam_questions;
+
+CREATE POLICY "Instructors can manage questions on their own exams"
+ON public.exam_questions
+FOR ALL
+USING (public.is_exam_owner(exam_id))
+WITH CHECK (
+  public.is_exam_owner(exam_id)
+  AND public.is_subject_owner((SELECT q.subject_id FROM public.questions q WHERE q.id = question_id))
+);
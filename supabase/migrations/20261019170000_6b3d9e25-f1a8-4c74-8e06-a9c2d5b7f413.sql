@@ -0,0 +1,48 @@
+-- The developer tools check is a window size heuristic that browser zoom and side panels also
+-- trip, so its events are kept for review but no longer count towards exams.max_violations.
+-- Keep the list in sync with INFORMATIONAL_EVENTS in src/lib/proctoring.ts.
+CREATE OR REPLACE FUNCTION public.log_attempt_event(_attempt_id uuid, _event_type text, _details jsonb DEFAULT NULL)
+RETURNS TABLE (event_count integer, attempt_status text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  _attempt public.exam_attempts;
+  _max_violations integer;
+BEGIN
+  SELECT * INTO _attempt
+  FROM public.exam_attempts
+  WHERE id = _attempt_id;
+
+  IF NOT FOUND OR _attempt.student_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Exam attempt not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt is no longer in progress' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.attempt_events (attempt_id, event_type, details)
+  VALUES (_attempt_id, _event_type, _details);
+
+  SELECT count(*)::integer INTO event_count
+  FROM public.attempt_events
+  WHERE attempt_events.attempt_id = _attempt_id
+    AND attempt_events.event_type <> 'devtools_open';
+
+  SELECT max_violations INTO _max_violations
+  FROM public.exams
+  WHERE id = _attempt.exam_id;
+
+  IF _max_violations IS NOT NULL AND _event_type <> 'devtools_open' AND event_count >= _max_violations THEN
+    PERFORM public.grade_attempt(_attempt_id);
+  END IF;
+
+  SELECT status INTO attempt_status
+  FROM public.exam_attempts
+  WHERE id = _attempt_id;
+
+  RETURN NEXT;
+END;
+$function$;